@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { clsx } from 'clsx';
 import { motion, AnimatePresence } from 'framer-motion';
 import ExpressionInput from './components/ExpressionInput';
@@ -9,14 +9,18 @@ import LogicAnalysis from './components/LogicAnalysis';
 import VariableSelector from './components/VariableSelector';
 import SettingsSheet from './components/SettingsSheet';
 import KarnaughMap from './components/KarnaughMap';
+import MinimizationPanel from './components/MinimizationPanel';
 import StepByStep from './components/StepByStep';
 import Onboarding from './components/Onboarding';
 import HistorySheet from './components/HistorySheet';
 import Workspace from './components/Workspace';
 import STTTInteractive from './components/STTTInteractive';
-import { analyzeLogic, extractVariablesFromExpression, reanalyzeFromRows, recalculateRow } from './utils/logic';
+import CompareView from './components/CompareView';
+import { assignmentRowIndex, diagnoseExpression, extractVariablesFromExpression, FULL_ANALYSIS_VARIABLES, fullyParenthesize, MAX_TABLE_VARIABLES, pagedRow, parseExpression, parseOptionsFromSettings, ParseError, recalculateRow } from './utils/logic';
+import { AnalysisCancelledError, AnalysisJob, AnalysisProgress, startAnalysis, startReanalysis } from './utils/analysisClient';
 import { db } from './utils/db';
-import { AnalysisResult, AppSettings, DEFAULT_SETTINGS, TruthTableRow, TableColumn, HistoryItem } from './types';
+import { isTermListNotation, parseTermList, termListVariables } from './utils/notation';
+import { AnalysisResult, AppSettings, DEFAULT_SETTINGS, TruthTableRow, TableColumn, HistoryItem, ParseDiagnostic, AssignmentMap } from './types';
 import { Table2, Sparkles, BrainCircuit, Settings2, AlertCircle, Grid2X2, RotateCcw, Sun, Moon, Trash2, ListEnd, History, BookOpen, GraduationCap, Eye, EyeOff, MoreVertical, X } from 'lucide-react';
 import { Analytics } from "@vercel/analytics/react";
 
@@ -30,6 +34,8 @@ const App: React.FC = () => {
   const [detectedVars, setDetectedVars] = useState<string[]>([]);
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [groupedReading, setGroupedReading] = useState<string | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [focusMode, setFocusMode] = useState(true); // V6: Focus mode enabled by default
   const [showMobileMenu, setShowMobileMenu] = useState(false);
@@ -47,7 +53,7 @@ const App: React.FC = () => {
   }, []);
 
   // View State
-  const [currentView, setCurrentView] = useState<'calculator' | 'workspace'>('calculator');
+  const [currentView, setCurrentView] = useState<'calculator' | 'compare' | 'workspace'>('calculator');
   
   // Theme State
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
@@ -62,7 +68,13 @@ const App: React.FC = () => {
   // Settings
   const [settings, setSettings] = useState<AppSettings>(() => {
       const saved = localStorage.getItem('lf_settings_v3');
-      return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
+      if (!saved) return DEFAULT_SETTINGS;
+      // Fill in options added after the settings were first stored
+      const parsed = JSON.parse(saved);
+      return {
+          logic: { ...DEFAULT_SETTINGS.logic, ...parsed.logic },
+          table: { ...DEFAULT_SETTINGS.table, ...parsed.table },
+      };
   });
   
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
@@ -70,6 +82,10 @@ const App: React.FC = () => {
   const [sheetContent, setSheetContent] = useState<'result' | 'settings' | 'history' | 'sttt'>('result');
   const [viewMode, setViewMode] = useState<'table' | 'analysis' | 'kmap' | 'step'>('table');
   const [selectedRow, setSelectedRow] = useState<TruthTableRow | null>(null);
+  const [highlightedRowId, setHighlightedRowId] = useState<string | null>(null);
+  const [generation, setGeneration] = useState<AnalysisProgress | null>(null);
+  const jobRef = useRef<AnalysisJob | null>(null);
+  const reanalysisRef = useRef<AnalysisJob | null>(null);
 
   // Check Onboarding
   useEffect(() => {
@@ -113,11 +129,11 @@ const App: React.FC = () => {
             setDetectedVars([]);
             return;
         }
-        const detected = extractVariablesFromExpression(expression);
+        const detected = extractVariablesFromExpression(expression, parseOptionsFromSettings(settings));
         setDetectedVars(detected);
     }, 300);
     return () => clearTimeout(timer);
-  }, [expression]);
+  }, [expression, settings.logic.caseSensitiveVariables]);
 
   // Real-time Validation
   useEffect(() => {
@@ -125,34 +141,68 @@ const App: React.FC = () => {
     if (trimmed.length === 0) {
         setIsValid(false);
         setErrorMessage(null);
+        setDiagnostics([]);
+        setGroupedReading(null);
         return;
     }
 
-    const used = extractVariablesFromExpression(trimmed);
+    // Σm/ΠM notation has its own checks; the formula diagnostics would only flag the Σ
+    if (isTermListNotation(trimmed)) {
+        setDiagnostics([]);
+        setGroupedReading(null);
+        const header = termListVariables(trimmed, settings.logic.caseSensitiveVariables);
+        const undeclared = header.filter(v => !selectedVars.includes(v));
+        try {
+            parseTermList(trimmed, selectedVars.length, settings.logic.caseSensitiveVariables);
+            if (undeclared.length > 0) throw new Error(`Undeclared: ${undeclared.join(', ')}`);
+            if (header.length > 0 && header.length !== selectedVars.length) throw new Error(`Declare exactly ${header.join(', ')}`);
+            setIsValid(true);
+            setErrorMessage(null);
+        } catch (e: any) {
+            setIsValid(false);
+            setErrorMessage(e.message);
+        }
+        return;
+    }
+
+    // Diagnose the untrimmed input so spans line up with what is on screen
+    const found = diagnoseExpression(expression, parseOptionsFromSettings(settings));
+    setDiagnostics(found);
+    setGroupedReading(found.some(d => d.severity === 'error') ? null : fullyParenthesize(parseExpression(expression, parseOptionsFromSettings(settings))));
+
+    const used = extractVariablesFromExpression(trimmed, parseOptionsFromSettings(settings));
     const undeclared = used.filter(v => !selectedVars.includes(v));
-    const openBrackets = (trimmed.match(/[(\[{]/g) || []).length;
-    const closeBrackets = (trimmed.match(/[)\]}]/g) || []).length;
 
-    if (undeclared.length > 0) {
+    if (found.some(d => d.severity === 'error')) {
+        // Shown with carets and fixes under the input instead of the banner
+        setIsValid(false);
+        setErrorMessage(null);
+    } else if (undeclared.length > 0) {
         setIsValid(false);
         setErrorMessage(`Undeclared: ${undeclared.join(', ')}`);
     } else if (selectedVars.length === 0) {
         setIsValid(false);
         setErrorMessage("Declare variables above");
-    } else if (openBrackets !== closeBrackets) {
-        setIsValid(false);
-        setErrorMessage("Mismatched brackets");
     } else {
         setIsValid(true);
         setErrorMessage(null);
     }
-  }, [expression, selectedVars]);
+  }, [expression, selectedVars, settings.logic.caseSensitiveVariables, settings.logic.precedenceProfile]);
 
   const handleGenerate = async () => {
     setErrorMessage(null);
+    // A newer request replaces one still running
+    jobRef.current?.cancel();
+    reanalysisRef.current?.cancel();
+    // Past the table limit the formula is classified by search, with witness rows instead of a table
+    const method = selectedVars.length > MAX_TABLE_VARIABLES ? 'sat' : 'table';
+    const job = startAnalysis(expression, selectedVars, settings, setGeneration, method);
+    jobRef.current = job;
+    setGeneration({ done: 0, total: Math.pow(2, selectedVars.length) });
     try {
-      const result = analyzeLogic(expression, selectedVars, settings);
+      const result = await job.result;
       setAnalysis(result);
+      setHighlightedRowId(null);
       
       await db.addHistory({
           id: crypto.randomUUID(),
@@ -172,12 +222,21 @@ const App: React.FC = () => {
       setIsSheetOpen(true);
       if (navigator.vibrate) navigator.vibrate([10, 30, 10]);
     } catch (e: any) {
+      if (e instanceof AnalysisCancelledError) return;
       console.error(e);
-      setErrorMessage(e.message || "Invalid expression");
+      if (e instanceof ParseError) setDiagnostics(e.diagnostics);
+      else setErrorMessage(e.message || "Invalid expression");
       if (navigator.vibrate) navigator.vibrate([50, 50]);
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setGeneration(null);
+      }
     }
   };
 
+  const cancelGeneration = () => jobRef.current?.cancel();
+
   const loadFromHistory = (item: HistoryItem) => {
       setExpression(item.expression);
       setSelectedVars(item.variables);
@@ -204,15 +263,49 @@ const App: React.FC = () => {
       setViewMode('step');
   };
 
-  const handleRowChange = (updatedRow: TruthTableRow, changedCol: TableColumn) => {
+  // Counter-examples from the STTT sheet, opened as the matching truth-table row
+  const findAssignmentRow = (assignment: AssignmentMap) => {
+      if (analysis?.paged) return pagedRow(analysis, assignmentRowIndex(assignment, analysis.variables, analysis.paged.rowOrder));
+      return analysis?.rows.find(r => analysis.variables.every(v => r.values[v] === assignment[v]));
+  };
+
+  const showAssignmentRow = (assignment: AssignmentMap) => {
+      const row = findAssignmentRow(assignment);
+      if (!row) return;
+      setHighlightedRowId(row.id);
+      setViewMode('table');
+      setSheetContent('result');
+  };
+
+  const stepThroughAssignment = (assignment: AssignmentMap) => {
+      const row = findAssignmentRow(assignment);
+      if (!row) return;
+      setHighlightedRowId(row.id);
+      setSelectedRow(row);
+      setViewMode('step');
+      setSheetContent('result');
+  };
+
+  const handleRowChange = async (updatedRow: TruthTableRow, changedCol: TableColumn) => {
       if (!analysis) return;
       let finalRow = updatedRow;
       if (changedCol.isInput) {
           finalRow = recalculateRow(updatedRow, analysis.columns, analysis.ast);
       }
       const newRows = analysis.rows.map(r => r.id === finalRow.id ? finalRow : r);
-      const newAnalysis = reanalyzeFromRows(analysis, newRows, settings);
-      setAnalysis(newAnalysis);
+      // The edit shows at once; classification and minimization follow from the worker
+      setAnalysis({ ...analysis, rows: newRows });
+      reanalysisRef.current?.cancel();
+      const job = startReanalysis(analysis, newRows, settings);
+      reanalysisRef.current = job;
+      try {
+          const result = await job.result;
+          setAnalysis(result);
+      } catch (e: any) {
+          if (!(e instanceof AnalysisCancelledError)) console.error(e);
+      } finally {
+          if (reanalysisRef.current === job) reanalysisRef.current = null;
+      }
   };
 
   const MenuAction = ({ icon: Icon, label, onClick }: any) => (
@@ -258,6 +351,17 @@ const App: React.FC = () => {
                 >
                     Calculator
                 </button>
+                <button
+                    onClick={() => setCurrentView('compare')}
+                    className={clsx(
+                        "px-6 py-2 rounded-full text-sm font-bold transition-all duration-300",
+                        currentView === 'compare' 
+                            ? "bg-white dark:bg-surface-700 text-surface-900 dark:text-white shadow-sm" 
+                            : "text-surface-600 dark:text-surface-400 hover:text-surface-800"
+                    )}
+                >
+                    Compare
+                </button>
                 <button
                     onClick={() => setCurrentView('workspace')}
                     className={clsx(
@@ -375,6 +479,7 @@ const App: React.FC = () => {
                     <VariableSelector 
                         selected={selectedVars} 
                         suggested={detectedVars}
+                        caseSensitive={settings.logic.caseSensitiveVariables}
                         onChange={setSelectedVars} 
                     />
 
@@ -383,10 +488,30 @@ const App: React.FC = () => {
                         onChange={setExpression} 
                         onGenerate={handleGenerate} 
                         isValid={isValid} 
+                        diagnostics={diagnostics}
+                        groupedReading={groupedReading}
                     />
                     
                     <div className="h-8 flex justify-center">
                         <AnimatePresence>
+                            {generation && generation.total > Math.pow(2, FULL_ANALYSIS_VARIABLES) && (
+                                <MotionDiv
+                                    initial={{ opacity: 0, y: -10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    exit={{ opacity: 0 }}
+                                    className="flex items-center gap-3 text-sm font-bold text-primary-700 dark:text-primary-300 bg-primary-100 dark:bg-primary-900/40 pl-4 pr-1.5 py-1 rounded-full"
+                                >
+                                    {generation.total > Math.pow(2, MAX_TABLE_VARIABLES)
+                                        ? 'Searching with the SAT solver…'
+                                        : `Generating ${generation.done.toLocaleString()} / ${generation.total.toLocaleString()} rows`}
+                                    <button
+                                        onClick={cancelGeneration}
+                                        className="flex items-center gap-1 px-3 py-0.5 rounded-full bg-white/70 dark:bg-white/10 hover:bg-white dark:hover:bg-white/20 transition-colors"
+                                    >
+                                        <X className="w-3.5 h-3.5" /> Cancel
+                                    </button>
+                                </MotionDiv>
+                            )}
                             {errorMessage && (
                                 <MotionDiv
                                     initial={{ opacity: 0, y: -10 }}
@@ -403,13 +528,23 @@ const App: React.FC = () => {
             </MotionDiv>
         )}
 
+        {/* Compare View */}
+        {currentView === 'compare' && (
+            <MotionDiv 
+                initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 20 }}
+                className="w-full h-full pt-24 overflow-y-auto"
+            >
+                <CompareView settings={settings} />
+            </MotionDiv>
+        )}
+
         {/* Workspace View */}
         {currentView === 'workspace' && (
             <MotionDiv 
                 initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 20 }}
                 className="w-full h-full pt-24"
             >
-                <Workspace />
+                <Workspace settings={settings} />
             </MotionDiv>
         )}
 
@@ -441,7 +576,7 @@ const App: React.FC = () => {
             sheetContent === 'settings' ? 'Settings' : 
             sheetContent === 'history' ? 'History' :
             sheetContent === 'sttt' ? 'STTT (Beta)' :
-            (viewMode === 'table' ? 'Truth Table' : viewMode === 'kmap' ? 'Karnaugh Map' : viewMode === 'step' ? 'Evaluation Steps' : 'Analysis')
+            (viewMode === 'table' ? 'Truth Table' : viewMode === 'kmap' ? (analysis?.kMapData ? 'Karnaugh Map' : 'Minimize') : viewMode === 'step' ? 'Evaluation Steps' : 'Analysis')
         }
       >
         <div className="flex flex-col h-full bg-surface-50 dark:bg-[#121212]">
@@ -450,7 +585,7 @@ const App: React.FC = () => {
                     <div className="px-6 mb-6 flex gap-3 overflow-x-auto no-scrollbar pb-2">
                         {[
                           { id: 'table', icon: Table2, label: 'Table' },
-                          { id: 'kmap', icon: Grid2X2, label: 'K-Map' },
+                          { id: 'kmap', icon: Grid2X2, label: analysis && !analysis.kMapData ? 'Minimize' : 'K-Map' },
                           { id: 'step', icon: ListEnd, label: 'Steps', show: viewMode === 'step' },
                           { id: 'analysis', icon: BrainCircuit, label: 'Analysis' }
                         ].filter(x => x.show !== false).map((tab) => (
@@ -494,7 +629,10 @@ const App: React.FC = () => {
                                         columns={analysis.columns}
                                         settings={settings}
                                         onRowSelect={handleRowSelect}
-                                        onRowChange={handleRowChange}
+                                        onRowChange={analysis.paged || analysis.sat ? undefined : handleRowChange}
+                                        highlightedRowId={highlightedRowId}
+                                        rowCount={analysis.paged?.rowCount}
+                                        getRow={analysis.paged ? (i => pagedRow(analysis, i)) : undefined}
                                     />
                                 </MotionDiv>
                             )}
@@ -506,7 +644,12 @@ const App: React.FC = () => {
                                     exit={{ opacity: 0, scale: 0.95 }}
                                     className="h-full w-full overflow-y-auto"
                                 >
-                                    <KarnaughMap data={analysis?.kMapData} expression={expression} />
+                                    {analysis?.kMapData
+                                        ? <KarnaughMap data={analysis.kMapData} expression={expression} />
+                                        : <MinimizationPanel
+                                            data={analysis?.minimization}
+                                            notice={analysis?.paged || analysis?.sat ? `Minimization is skipped above ${FULL_ANALYSIS_VARIABLES} variables.` : undefined}
+                                          />}
                                 </MotionDiv>
                             )}
                             {viewMode === 'step' && analysis && selectedRow && (
@@ -556,6 +699,8 @@ const App: React.FC = () => {
                     report={analysis.sttt}
                     ast={analysis.ast}
                     settings={settings}
+                    onShowRow={showAssignmentRow}
+                    onStepThrough={stepThroughAssignment}
                 />
             )}
         </div>
@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { motion } from 'framer-motion';
+import { AppSettings, ComparisonResult, ComparisonVerdict } from '../types';
+import { compareFormulas } from '../utils/compare';
+import TruthTable from './TruthTable';
+import { ArrowLeftRight, AlertCircle, Equal, ArrowRight, ArrowLeft, X } from 'lucide-react';
+
+// Fix for strict type checking on motion components
+const MotionDiv = motion.div as any;
+
+interface CompareViewProps {
+    settings: AppSettings;
+}
+
+const VERDICTS: Record<ComparisonVerdict, { symbol: string; title: string; detail: string; icon: React.ElementType; style: string }> = {
+    Equivalent: {
+        symbol: 'A ≡ B',
+        title: 'Equivalent',
+        detail: 'Both formulas take the same value on every row.',
+        icon: Equal,
+        style: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200'
+    },
+    LeftImpliesRight: {
+        symbol: 'A ⊨ B',
+        title: 'A implies B',
+        detail: 'Every row that makes A true makes B true, but not the other way round.',
+        icon: ArrowRight,
+        style: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200'
+    },
+    RightImpliesLeft: {
+        symbol: 'B ⊨ A',
+        title: 'B implies A',
+        detail: 'Every row that makes B true makes A true, but not the other way round.',
+        icon: ArrowLeft,
+        style: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200'
+    },
+    Neither: {
+        symbol: 'A ⊭ B, B ⊭ A',
+        title: 'Neither implies the other',
+        detail: 'Some row makes A true and B false, and another makes B true and A false.',
+        icon: X,
+        style: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200'
+    }
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ settings }) => {
+    const [left, setLeft] = useState('¬(P ∧ Q)');
+    const [right, setRight] = useState('¬P ∨ ¬Q');
+    // The comparison follows the inputs once typing pauses
+    const [pair, setPair] = useState({ left, right });
+
+    useEffect(() => {
+        const timer = setTimeout(() => setPair({ left, right }), 300);
+        return () => clearTimeout(timer);
+    }, [left, right]);
+
+    const comparison = useMemo((): ComparisonResult | string | null => {
+        if (!pair.left.trim() || !pair.right.trim()) return null;
+        try {
+            return compareFormulas(pair.left, pair.right, settings);
+        } catch (e) {
+            return e instanceof Error ? e.message : 'Invalid formula';
+        }
+    }, [pair, settings]);
+
+    const display = (value: boolean) => settings.logic.truthValues === 'F/T' ? (value ? 'T' : 'F') : (value ? '1' : '0');
+
+    const swap = () => {
+        setLeft(right);
+        setRight(left);
+    };
+
+    const formulaCard = (label: string, value: string, onChange: (value: string) => void) => (
+        <div className="flex-1 bg-[#1e2330] rounded-2xl p-5 border border-white/5 flex flex-col shadow-lg ring-1 ring-white/10">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Formula {label}</label>
+            <input
+                type="text"
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                className="w-full bg-transparent text-white font-mono text-lg outline-none placeholder-slate-600"
+                placeholder={label === 'A' ? '¬(P ∧ Q)' : '¬P ∨ ¬Q'}
+                spellCheck={false}
+            />
+        </div>
+    );
+
+    const verdict = comparison && typeof comparison !== 'string' ? VERDICTS[comparison.verdict] : null;
+    const row = comparison && typeof comparison !== 'string' ? comparison.distinguishingRow : undefined;
+
+    return (
+        <div className="h-full flex flex-col w-full max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+            <div className="py-8">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Compare Formulas</h2>
+            </div>
+
+            <div className="flex flex-col md:flex-row items-stretch gap-3 mb-6">
+                {formulaCard('A', left, setLeft)}
+                <button
+                    onClick={swap}
+                    title="Swap A and B"
+                    className="self-center p-3 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                >
+                    <ArrowLeftRight className="w-5 h-5" />
+                </button>
+                {formulaCard('B', right, setRight)}
+            </div>
+
+            {typeof comparison === 'string' && (
+                <div className="flex items-center gap-2 text-sm font-bold text-red-600 bg-red-100 dark:bg-red-900/40 px-4 py-3 rounded-xl mb-6">
+                    <AlertCircle className="w-4 h-4" /> {comparison}
+                </div>
+            )}
+
+            {comparison && typeof comparison !== 'string' && verdict && (
+                <>
+                    <MotionDiv
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className={clsx("p-5 rounded-2xl flex items-start gap-4 shadow-sm mb-4", verdict.style)}
+                    >
+                        <verdict.icon className="w-6 h-6 mt-0.5 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex flex-wrap items-baseline gap-x-3">
+                                <h3 className="text-lg font-bold">{verdict.title}</h3>
+                                <span className="font-mono text-sm opacity-80">{verdict.symbol}</span>
+                            </div>
+                            <p className="text-sm opacity-90">{verdict.detail}</p>
+                            {comparison.decidedBySat && (
+                                <p className="text-xs font-bold uppercase tracking-wider opacity-70 mt-2">
+                                    Decided by SAT over {comparison.variables.length} variables; only distinguishing rows are listed
+                                </p>
+                            )}
+                            {row && (
+                                <p className="text-sm mt-2">
+                                    <span className="font-bold">Distinguishing row: </span>
+                                    <span className="font-mono">
+                                        {comparison.variables.length > 0
+                                            ? comparison.variables.map(v => `${v} = ${display(row.values[v])}`).join(', ')
+                                            : 'the only row'}
+                                        {' '}gives A = {display(row.values[comparison.columns[comparison.columns.length - 2].expression])},
+                                        B = {display(row.values[comparison.columns[comparison.columns.length - 1].expression])}
+                                    </span>
+                                </p>
+                            )}
+                        </div>
+                    </MotionDiv>
+
+                    <div className="flex-1 min-h-[320px] rounded-2xl overflow-hidden border border-slate-200 dark:border-white/5">
+                        <TruthTable
+                            rows={comparison.rows}
+                            columns={comparison.columns}
+                            settings={settings}
+                            highlightedRowId={row?.id ?? null}
+                        />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CompareView;
@@ -1,8 +1,9 @@
 
 import React, { useState, useRef, useLayoutEffect, useEffect } from 'react';
 import { clsx } from 'clsx';
-import { Sparkles, Delete, Keyboard, ChevronDown } from 'lucide-react';
+import { Sparkles, Delete, Keyboard, ChevronDown, AlertCircle, Wand2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { DiagnosticFix, ParseDiagnostic } from '../types';
 
 // Fix for strict type checking on motion components
 const MotionDiv = motion.div as any;
@@ -12,19 +13,46 @@ interface ExpressionInputProps {
   onChange: (val: string) => void;
   onGenerate: () => void;
   isValid: boolean;
+  diagnostics?: ParseDiagnostic[];
+  // Fully parenthesized form under the active precedence profile
+  groupedReading?: string | null;
 }
 
+interface UnderlineSegment {
+  text: string;
+  severity: ParseDiagnostic['severity'] | null;
+}
+
+// Splits the input into runs so diagnostic spans can be underlined in a mirror layer
+const buildSegments = (value: string, diagnostics: ParseDiagnostic[]): UnderlineSegment[] => {
+  const marks: (ParseDiagnostic['severity'] | null)[] = Array.from({ length: value.length }, () => null);
+  diagnostics.forEach(d => {
+    for (let i = d.start; i < Math.min(d.end, value.length); i++) {
+      if (marks[i] !== 'error') marks[i] = d.severity;
+    }
+  });
+  const segments: UnderlineSegment[] = [];
+  marks.forEach((severity, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.severity === severity) last.text += value[i];
+    else segments.push({ text: value[i], severity });
+  });
+  return segments;
+};
+
 const KEYBOARD_ROWS = [
     { name: 'LOGIC', symbols: ['¬', '∧', '∨', '→', '↔', '⊕'] },
-    { name: 'TEMPLATES', symbols: ['¬()', '()→()', '()↔()'] },
+    { name: 'GATES', symbols: ['↑', '↓', '⊙', '←'] },
+    { name: 'TEMPLATES', symbols: ['¬()', '()→()', '()↔()', 'Σm()+d()'] },
     { name: 'GROUPS', symbols: ['(', ')', '[', ']', '{', '}'] },
     { name: 'VALUES', symbols: ['1', '0'] },
     { name: 'VARS', symbols: ['P', 'Q', 'R', 'S'] }
 ];
 
-const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGenerate, isValid }) => {
+const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGenerate, isValid, diagnostics = [], groupedReading }) => {
   const [isFocused, setIsFocused] = useState(false);
   const [showKeyboard, setShowKeyboard] = useState(false);
+  const [scrollLeft, setScrollLeft] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const cursorRef = useRef<number | null>(null);
 
@@ -64,6 +92,16 @@ const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGe
       onChange(val);
   };
 
+  const applyFix = (fix: DiagnosticFix) => {
+    cursorRef.current = fix.start + fix.replacement.length;
+    onChange(value.slice(0, fix.start) + fix.replacement + value.slice(fix.end));
+    inputRef.current?.focus();
+  };
+
+  const segments = buildSegments(value, diagnostics);
+  // Errors take priority over warnings in the caret panel
+  const primary = diagnostics.find(d => d.severity === 'error') || diagnostics[0];
+
   const insertSymbol = (char: string) => {
     const input = inputRef.current;
     if (input) {
@@ -75,6 +113,7 @@ const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGe
       if (char === '¬()') { insertion = '¬()'; moveCursor = 2; } 
       else if (char === '()→()') { insertion = '() → ()'; moveCursor = 1; }
       else if (char === '()↔()') { insertion = '() ↔ ()'; moveCursor = 1; }
+      else if (char === 'Σm()+d()') { insertion = 'Σm() + d()'; moveCursor = 3; }
       else if (char === '(') { insertion = '()'; moveCursor = 1; }
       else if (char === '[') { insertion = '[]'; moveCursor = 1; }
       else if (char === '{') { insertion = '{}'; moveCursor = 1; }
@@ -100,7 +139,24 @@ const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGe
             isFocused || showKeyboard ? "ring-2 ring-primary-500/50 shadow-2xl shadow-black/40 scale-[1.02]" : "shadow-xl shadow-black/20"
             )}
         >
-            <div className="flex-1 relative h-16">
+            <div className="flex-1 relative h-16 overflow-hidden">
+                {/* Underline mirror: same metrics as the input, transparent text */}
+                <div aria-hidden className="absolute inset-0 px-8 flex items-center text-xl font-mono tracking-widest whitespace-pre text-transparent pointer-events-none">
+                    <div style={{ transform: `translateX(-${scrollLeft}px)` }}>
+                        {segments.map((seg, i) => (
+                            <span
+                                key={i}
+                                className={clsx(
+                                    seg.severity && "underline decoration-wavy decoration-2 underline-offset-[6px]",
+                                    seg.severity === 'error' && "decoration-red-500",
+                                    seg.severity === 'warning' && "decoration-amber-400"
+                                )}
+                            >
+                                {seg.text}
+                            </span>
+                        ))}
+                    </div>
+                </div>
                 <input
                 ref={inputRef}
                 type="text"
@@ -109,7 +165,8 @@ const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGe
                 onFocus={() => { setIsFocused(true); }}
                 onBlur={() => { setIsFocused(false); }}
                 onKeyDown={handleKeyDown}
-                className="w-full h-full bg-transparent px-8 text-xl font-mono text-white dark:text-white placeholder-white/30 outline-none tracking-widest"
+                onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+                className="relative w-full h-full bg-transparent px-8 text-xl font-mono text-white dark:text-white placeholder-white/30 outline-none tracking-widest"
                 placeholder="{P ∧ [Q ∨ R]}"
                 autoComplete="off"
                 spellCheck={false}
@@ -142,6 +199,57 @@ const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, onChange, onGe
                 </button>
             </div>
         </MotionDiv>
+
+        {/* Caret Diagnostics */}
+        <AnimatePresence>
+            {primary && (
+                <MotionDiv
+                    initial={{ opacity: 0, y: -8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -8 }}
+                    className={clsx(
+                        "mt-3 mx-4 p-4 rounded-2xl border text-sm",
+                        primary.severity === 'error'
+                            ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-900/40 text-red-800 dark:text-red-200"
+                            : "bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-900/40 text-amber-800 dark:text-amber-200"
+                    )}
+                >
+                    <div className="flex items-start gap-2 font-bold">
+                        <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span className="flex-1">{primary.message}</span>
+                        {diagnostics.length > 1 && (
+                            <span className="text-[10px] uppercase tracking-widest opacity-60 whitespace-nowrap">{diagnostics.length} issues</span>
+                        )}
+                    </div>
+                    {value.length > 0 && (
+                        <pre className="mt-2 font-mono text-xs leading-tight overflow-x-auto no-scrollbar opacity-80">
+                            {value}{'\n'}{' '.repeat(primary.start)}{'^'.repeat(Math.max(1, primary.end - primary.start))}
+                        </pre>
+                    )}
+                    {primary.fixes.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                            {primary.fixes.map((fix, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => applyFix(fix)}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white dark:bg-white/10 border border-current/20 font-bold text-xs active:scale-95 transition-transform"
+                                >
+                                    <Wand2 className="w-3 h-3" /> {fix.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </MotionDiv>
+            )}
+        </AnimatePresence>
+
+        {/* Grouping Preview */}
+        {!primary && groupedReading && (
+            <div className="mt-3 mx-4 flex items-baseline justify-center gap-2 text-sm">
+                <span className="text-[10px] font-bold uppercase tracking-widest text-surface-400">Read as</span>
+                <span className="font-mono text-surface-600 dark:text-surface-300 break-all">{groupedReading}</span>
+            </div>
+        )}
       </div>
 
       {/* Bottom Sheet Keyboard - Fixed Position */}
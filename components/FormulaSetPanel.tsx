@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { clsx } from 'clsx';
+import { AppSettings, FormulaSetAnalysis, TruthTableRow } from '../types';
+import { analyzeFormulaSet } from '../utils/entailment';
+import TruthTable from './TruthTable';
+import { AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+
+interface FormulaSetPanelProps {
+    premises: string;
+    conclusion: string;
+    settings: AppSettings;
+}
+
+const MAX_LISTED_MODELS = 8;
+
+const FormulaSetPanel: React.FC<FormulaSetPanelProps> = ({ premises, conclusion, settings }) => {
+    const result = useMemo((): FormulaSetAnalysis | string => {
+        const lines = premises.split('\n').map(l => l.trim()).filter(Boolean);
+        if (lines.length === 0 && !conclusion.trim()) return 'Enter premises, one per line, to check them with a truth table.';
+        try {
+            return analyzeFormulaSet(lines, conclusion, settings);
+        } catch (e) {
+            return e instanceof Error ? e.message : 'Invalid formula';
+        }
+    }, [premises, conclusion, settings]);
+
+    if (typeof result === 'string') {
+        return (
+            <div className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-white/5 px-4 py-3 rounded-xl">
+                <AlertCircle className="w-4 h-4" /> {result}
+            </div>
+        );
+    }
+
+    const display = (value: boolean) => settings.logic.truthValues === 'F/T' ? (value ? 'T' : 'F') : (value ? '1' : '0');
+    const assignment = (row: TruthTableRow) =>
+        result.variables.length > 0 ? result.variables.map(v => `${v} = ${display(row.values[v])}`).join(', ') : 'the only row';
+
+    const verdictCard = (ok: boolean, title: string, detail: React.ReactNode) => (
+        <div className={clsx(
+            "p-4 rounded-2xl flex items-start gap-3",
+            ok ? "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200" : "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200"
+        )}>
+            {ok ? <CheckCircle2 className="w-5 h-5 mt-0.5 shrink-0" /> : <XCircle className="w-5 h-5 mt-0.5 shrink-0" />}
+            <div className="min-w-0">
+                <div className="font-bold">{title}</div>
+                <div className="text-sm opacity-90">{detail}</div>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {verdictCard(
+                    result.consistent,
+                    result.consistent ? 'Consistent' : 'Inconsistent',
+                    result.consistent
+                        ? `${result.models.length} of ${result.rows.length} rows make every premise true.`
+                        : 'No row makes every premise true.'
+                )}
+                {result.entails === undefined
+                    ? (
+                        <div className="p-4 rounded-2xl bg-slate-100 dark:bg-white/5 text-sm text-slate-600 dark:text-slate-300">
+                            Add a conclusion to check whether the premises entail it.
+                        </div>
+                    )
+                    : verdictCard(
+                        result.entails,
+                        result.entails ? 'Γ ⊨ φ: the premises entail the conclusion' : 'Γ ⊭ φ: the conclusion does not follow',
+                        result.entails
+                            ? (result.consistent ? 'Every model of the premises makes the conclusion true.' : 'Vacuously: the premises have no model.')
+                            : <>Counter-model: <span className="font-mono">{assignment(result.counterModel!)}</span></>
+                    )}
+            </div>
+
+            {result.independence.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {result.independence.map(({ index, independent, witness }) => (
+                        <span
+                            key={index}
+                            title={witness ? `The other premises hold and P${index + 1} fails at ${assignment(witness)}` : undefined}
+                            className={clsx(
+                                "px-3 py-1 rounded-full text-xs font-bold",
+                                independent
+                                    ? "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                                    : "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"
+                            )}
+                        >
+                            P{index + 1} {independent ? 'is independent' : 'follows from the others'}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {result.models.length > 0 && (
+                <div className="text-sm text-slate-600 dark:text-slate-300">
+                    <span className="font-bold">Models: </span>
+                    <span className="font-mono">
+                        {result.models.slice(0, MAX_LISTED_MODELS).map(assignment).join(' · ')}
+                    </span>
+                    {result.models.length > MAX_LISTED_MODELS && ` and ${result.models.length - MAX_LISTED_MODELS} more`}
+                </div>
+            )}
+
+            <div className="h-[420px] rounded-2xl overflow-hidden border border-slate-200 dark:border-white/5">
+                <TruthTable
+                    rows={result.rows}
+                    columns={result.columns}
+                    settings={settings}
+                    markedRowIds={result.models.map(r => r.id)}
+                    highlightedRowId={result.counterModel?.id ?? null}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default FormulaSetPanel;
@@ -1,7 +1,7 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { clsx } from 'clsx';
-import { KMapData, KMapGroup } from '../types';
+import { KMapData, KMapGroup, MinimizationForm } from '../types';
 import { motion } from 'framer-motion';
 
 // Fix for strict type checking on motion components
@@ -13,14 +13,22 @@ interface KMapProps {
 }
 
 const KarnaughMap: React.FC<KMapProps> = ({ data, expression }) => {
+  const [form, setForm] = useState<MinimizationForm>('SOP');
+  const [showAllPrimes, setShowAllPrimes] = useState(false);
   if (!data) return null;
 
-  const { grid, rowLabels, colLabels, variables, groups, minimizedExpression } = data;
+  const { grid, rowLabels, colLabels, variables } = data;
+  const primeGroups = form === 'SOP' ? data.sopGroups : data.posGroups;
+  const groups = showAllPrimes ? primeGroups : primeGroups.filter(g => g.inCover);
+  const minimizedExpression = form === 'SOP' ? data.minimizedSOP : data.minimizedPOS;
+  const exact = form === 'SOP' ? data.exactSOP : data.exactPOS;
   const numRows = grid.length;
   const numCols = grid[0].length;
   
-  const displayRowVar = variables.length === 2 ? variables[0] : variables.length === 3 ? variables[0] : variables.slice(0, 2).join('');
-  const displayColVar = variables.length === 2 ? variables[1] : variables.length === 3 ? variables.slice(1).join('') : variables.slice(2).join('');
+  // Multi-character names (P1, Rain) need a separator to stay readable
+  const joinVars = (vars: string[]) => vars.join(vars.some(v => v.length > 1) ? ',' : '');
+  const displayRowVar = variables.length === 2 ? variables[0] : variables.length === 3 ? variables[0] : joinVars(variables.slice(0, 2));
+  const displayColVar = variables.length === 2 ? variables[1] : variables.length === 3 ? joinVars(variables.slice(1)) : joinVars(variables.slice(2));
 
   return (
     <div className="p-6 flex flex-col items-center w-full min-h-[60vh]">
@@ -74,10 +82,10 @@ const KarnaughMap: React.FC<KMapProps> = ({ data, expression }) => {
                                     transition={{ delay: (rIdx * numCols + cIdx) * 0.02 }}
                                     className={clsx(
                                         "bg-white dark:bg-[#1a1c24] flex items-center justify-center font-mono text-2xl font-bold relative group transition-colors",
-                                        cell.value ? "text-slate-900 dark:text-white" : "text-slate-200 dark:text-slate-700"
+                                        cell.dontCare ? "text-amber-500 dark:text-amber-400" : cell.value ? "text-slate-900 dark:text-white" : "text-slate-200 dark:text-slate-700"
                                     )}
                                 >
-                                    {cell.value ? '1' : '0'}
+                                    {cell.dontCare ? 'X' : cell.value ? '1' : '0'}
                                     <div className="absolute top-1 right-1 text-[0.6rem] font-sans text-slate-300 dark:text-slate-600 opacity-50">
                                         {cell.mintermIndex}
                                     </div>
@@ -92,13 +100,14 @@ const KarnaughMap: React.FC<KMapProps> = ({ data, expression }) => {
                              <React.Fragment key={gIdx}>
                                  {group.cells.map((cell, cIdx) => (
                                      <MotionDiv
-                                        key={`g-${gIdx}-c-${cIdx}`}
+                                        key={`${form}-${gIdx}-c-${cIdx}`}
                                         initial={{ opacity: 0, scale: 0.5 }}
                                         animate={{ opacity: 1, scale: 1 }}
                                         transition={{ delay: 0.5 + gIdx * 0.1 }}
                                         className={clsx(
                                             "absolute rounded-xl border-[3px]",
-                                            group.color
+                                            group.color,
+                                            !group.inCover && "border-dashed opacity-60"
                                         )}
                                         style={{
                                             // 4rem is 64px + gap 1px = 65px
@@ -118,19 +127,56 @@ const KarnaughMap: React.FC<KMapProps> = ({ data, expression }) => {
 
         {/* Legend / Results */}
         <div className="w-full space-y-3">
+             <div className="flex bg-surface-200/60 dark:bg-white/5 rounded-full p-1">
+                {([['SOP', 'Group 1s (SOP)'], ['POS', 'Group 0s (POS)']] as [MinimizationForm, string][]).map(([id, label]) => (
+                    <button
+                        key={id}
+                        onClick={() => setForm(id)}
+                        className={clsx(
+                            "flex-1 py-2 rounded-full text-xs font-bold transition-all",
+                            form === id ? "bg-surface-900 text-white dark:bg-white dark:text-surface-900" : "text-slate-500"
+                        )}
+                    >
+                        {label}
+                    </button>
+                ))}
+             </div>
+
              <div className="bg-surface-50 dark:bg-white/5 p-5 rounded-2xl border border-surface-200 dark:border-white/5">
-                <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400 mb-2">Minimized Expression</h4>
+                <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400 mb-2">
+                    {exact ? 'Minimal' : 'Near-minimal (greedy)'} {form === 'SOP' ? 'Sum of Products' : 'Product of Sums'}
+                </h4>
                 <div className="font-mono text-xl font-medium text-primary-600 dark:text-primary-300 break-words">
-                    {minimizedExpression || "0"}
+                    {minimizedExpression}
                 </div>
             </div>
             
+            {primeGroups.length > 0 && (
+                <div className="flex bg-surface-200/60 dark:bg-white/5 rounded-full p-1">
+                    {[{ all: false, label: 'Chosen cover' }, { all: true, label: `All primes (${primeGroups.length})` }].map(opt => (
+                        <button
+                            key={opt.label}
+                            onClick={() => setShowAllPrimes(opt.all)}
+                            className={clsx(
+                                "flex-1 py-2 rounded-full text-xs font-bold transition-all",
+                                showAllPrimes === opt.all ? "bg-white dark:bg-surface-800 text-slate-900 dark:text-white shadow-sm" : "text-slate-500"
+                            )}
+                        >
+                            {opt.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {groups.length > 0 && (
                 <div className="flex flex-wrap gap-2 justify-center">
                     {groups.map((g, i) => (
-                        <div key={i} className={clsx("px-3 py-1.5 rounded-lg text-xs font-mono font-bold border flex items-center gap-2", g.color.replace('bg-', 'text-').replace('/20',''))}>
+                        <div key={i} className={clsx("px-3 py-1.5 rounded-lg text-xs font-mono font-bold border flex items-center gap-2", g.color.replace('bg-', 'text-').replace('/20',''), !g.inCover && "border-dashed opacity-60")}>
                             <div className={clsx("w-2 h-2 rounded-full", g.color.replace('/20', ''))}></div>
                             {g.term}
+                            <span className="font-sans text-[0.6rem] uppercase tracking-wider opacity-70">
+                                {g.kind === 'essential' ? 'Essential' : g.inCover ? 'Selective' : 'Redundant'}
+                            </span>
                         </div>
                     ))}
                 </div>
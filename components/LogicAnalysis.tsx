@@ -1,12 +1,16 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { clsx } from 'clsx';
-import { AnalysisResult, AppSettings } from '../types';
+import { AnalysisResult, AppSettings, TruthTableRow } from '../types';
 import { motion } from 'framer-motion';
-import { Info, ArrowRightLeft, ShieldCheck, AlertTriangle, CheckCircle2, Zap, Download, FileSpreadsheet, FileText, ArrowDown } from 'lucide-react';
+import { Info, ArrowRightLeft, ShieldCheck, AlertTriangle, CheckCircle2, Zap, Download, FileSpreadsheet, FileText, ArrowDown, Cpu, ListOrdered, Layers, FileCode, ChevronDown } from 'lucide-react';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import * as XLSX from 'xlsx';
+import { rewriteUsingOnly, countGates, UniversalGate, MAX_UNIVERSAL_LENGTH } from '../utils/universal';
+import { formatLabel, FULL_ANALYSIS_VARIABLES } from '../utils/logic';
+import { convertToNormalForm, MAX_NORMAL_FORM_CLAUSES, NormalForm } from '../utils/normalForms';
+import { toDimacs, tseitinEncode } from '../utils/sat';
 
 const MotionDiv = motion.div as any;
 
@@ -16,7 +20,23 @@ interface LogicAnalysisProps {
 }
 
 const LogicAnalysis: React.FC<LogicAnalysisProps> = ({ analysis, settings }) => {
-  const { classification, implicationForms, mainConnective, rightAway, complexity, simplificationSteps } = analysis;
+  const { classification, implicationForms, mainConnective, rightAway, complexity, simplificationSteps, simplificationStopped, simplificationVerified, canonical, sat } = analysis;
+  const [universalGate, setUniversalGate] = useState<UniversalGate>('NAND');
+  const [showUniversal, setShowUniversal] = useState(false);
+  // Only rewritten while the panel is open; null when the printed form is too large
+  const universalForm = useMemo(
+      () => showUniversal ? rewriteUsingOnly(analysis.ast, universalGate) : null,
+      [analysis.ast, universalGate, showUniversal]
+  );
+  const [normalForm, setNormalForm] = useState<NormalForm>('CNF');
+  const conversion = useMemo(() => convertToNormalForm(analysis.ast, normalForm), [analysis.ast, normalForm]);
+  const encoding = useMemo(() => tseitinEncode(analysis.ast, analysis.variables), [analysis.ast, analysis.variables]);
+
+  // Derived formulas are printed in the same notation as the simplification steps
+  const format = (expression: string) => settings ? formatLabel(expression, settings) : expression;
+  const display = (value: boolean) => settings?.logic.truthValues === 'F/T' ? (value ? 'T' : 'F') : (value ? '1' : '0');
+  const assignment = (row: TruthTableRow) =>
+      analysis.variables.length > 0 ? analysis.variables.map(v => `${v} = ${display(row.values[v])}`).join(', ') : 'the only row';
 
   const getBadgeColor = (c: string) => {
     if (c === 'Tautology') return 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200 border-none';
@@ -66,6 +86,17 @@ const LogicAnalysis: React.FC<LogicAnalysisProps> = ({ analysis, settings }) =>
     XLSX.writeFile(wb, `logicflow_${Date.now()}.xlsx`);
   };
 
+  const handleExportDimacs = () => {
+    const blob = new Blob([toDimacs(encoding, `LogicFlow Tseitin encoding of ${analysis.ast.expression}`)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `logicflow_${Date.now()}.cnf`;
+    link.click();
+    // Revoking at once can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   return (
     <div className="p-6 pb-20 max-w-2xl mx-auto w-full flex flex-col gap-6">
       
@@ -86,6 +117,22 @@ const LogicAnalysis: React.FC<LogicAnalysisProps> = ({ analysis, settings }) =>
                 {classification === 'Contradiction' && "Always false. A logical absurdity."}
                 {classification === 'Contingency' && `Depends on the input values.`}
             </p>
+            {sat && (
+                <div className="mt-4 space-y-2 text-sm">
+                    <div className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider opacity-70">
+                        <Cpu className="w-3.5 h-3.5" /> Decided by SAT
+                    </div>
+                    {sat.satisfying && (
+                        <div><span className="font-bold">True at </span><span className="font-mono break-words">{assignment(sat.satisfying)}</span></div>
+                    )}
+                    {sat.falsifying && (
+                        <div><span className="font-bold">False at </span><span className="font-mono break-words">{assignment(sat.falsifying)}</span></div>
+                    )}
+                    <div className="text-xs opacity-70">
+                        {sat.variables} variables and {sat.clauses} clauses after Tseitin encoding; {sat.decisions} decisions, {sat.conflicts} conflicts
+                    </div>
+                </div>
+            )}
         </div>
       </MotionDiv>
 
@@ -140,6 +187,19 @@ const LogicAnalysis: React.FC<LogicAnalysisProps> = ({ analysis, settings }) =>
            </MotionDiv>
       )}
 
+      {(simplificationStopped || simplificationVerified === false) && (
+           <div className="bg-surface-100 dark:bg-dark-containerHigh p-6 rounded-[2rem] border border-surface-200 dark:border-white/5">
+               <h4 className="text-sm font-bold text-surface-500 mb-2 ml-2 uppercase tracking-widest flex items-center gap-2">
+                   <Zap className="w-4 h-4" /> Algebraic Simplification
+               </h4>
+               <div className="text-sm text-surface-500 ml-2">
+                   {simplificationStopped
+                       ? 'Simplification was stopped: rewriting did not reach a form shorter than the original, so the formula is kept as entered.'
+                       : 'The rewritten form disagreed with the truth table, so the derivation is hidden.'}
+               </div>
+           </div>
+      )}
+
       {/* RightAway (RW) Result */}
       {rightAway?.isApplicable && (
           <MotionDiv 
@@ -194,19 +254,161 @@ const LogicAnalysis: React.FC<LogicAnalysisProps> = ({ analysis, settings }) =>
         </MotionDiv>
       )}
 
-      <div className="grid grid-cols-2 gap-3 mt-4">
+      {/* Canonical Forms */}
+      {canonical && (
+        <MotionDiv 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.12 }}
+            className="bg-white dark:bg-dark-containerHigh p-5 rounded-3xl border border-surface-200 dark:border-white/5 shadow-sm space-y-4"
+        >
+            <h4 className="text-sm font-bold text-surface-500 uppercase tracking-widest flex items-center gap-2">
+                <ListOrdered className="w-4 h-4" /> Canonical Forms
+            </h4>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <span className="text-xs font-bold text-surface-400 block mb-1">MINTERMS</span>
+                    <div className="font-mono text-base text-surface-900 dark:text-surface-100 break-words">Σm({canonical.minterms.join(', ')})</div>
+                </div>
+                <div>
+                    <span className="text-xs font-bold text-surface-400 block mb-1">MAXTERMS</span>
+                    <div className="font-mono text-base text-surface-900 dark:text-surface-100 break-words">ΠM({canonical.maxterms.join(', ')})</div>
+                </div>
+            </div>
+            {canonical.dontCares.length > 0 && (
+                <div className="text-xs font-bold text-amber-600 dark:text-amber-400">Don't care: d({canonical.dontCares.join(', ')})</div>
+            )}
+            <div>
+                <span className="text-xs font-bold text-surface-400 block mb-1">CANONICAL DNF</span>
+                <div className="font-mono text-sm text-surface-900 dark:text-surface-100 break-words max-h-32 overflow-y-auto">{canonical.dnf}</div>
+            </div>
+            <div>
+                <span className="text-xs font-bold text-surface-400 block mb-1">CANONICAL CNF</span>
+                <div className="font-mono text-sm text-surface-900 dark:text-surface-100 break-words max-h-32 overflow-y-auto">{canonical.cnf}</div>
+            </div>
+        </MotionDiv>
+      )}
+
+      {/* Universal Gate Form */}
+      <MotionDiv 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="bg-white dark:bg-dark-containerHigh p-5 rounded-3xl border border-surface-200 dark:border-white/5 shadow-sm"
+      >
+          <div className={clsx("flex items-center justify-between", showUniversal && "mb-3")}>
+              <button
+                  onClick={() => setShowUniversal(open => !open)}
+                  className="text-sm font-bold text-surface-500 uppercase tracking-widest flex items-center gap-2"
+              >
+                  <Cpu className="w-4 h-4" /> Universal Gates
+                  <ChevronDown className={clsx("w-4 h-4 transition-transform", showUniversal && "rotate-180")} />
+              </button>
+              {showUniversal && <div className="bg-surface-100 dark:bg-white/5 rounded-full p-1 flex">
+                  {(['NAND', 'NOR'] as UniversalGate[]).map(gate => (
+                      <button
+                          key={gate}
+                          onClick={() => setUniversalGate(gate)}
+                          className={clsx(
+                              "px-3 py-1 rounded-full text-xs font-bold transition-all",
+                              universalGate === gate ? "bg-white dark:bg-surface-700 shadow-sm text-primary-600 dark:text-primary-300" : "text-surface-500"
+                          )}
+                      >
+                          {gate} only
+                      </button>
+                  ))}
+              </div>}
+          </div>
+          {showUniversal && (universalForm ? (
+              <>
+                  <div className="font-mono text-base text-surface-900 dark:text-surface-100 break-all">{universalForm.expression}</div>
+                  <div className="text-xs font-bold text-surface-400 mt-2">{countGates(universalForm)} {universalGate} gates</div>
+              </>
+          ) : (
+              <div className="text-sm text-surface-500">
+                  Too large to print: the {universalGate} form passes {MAX_UNIVERSAL_LENGTH.toLocaleString()} characters.
+              </div>
+          ))}
+      </MotionDiv>
+
+      {/* Normal Forms */}
+      <MotionDiv 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.18 }}
+          className="bg-white dark:bg-dark-containerHigh p-5 rounded-3xl border border-surface-200 dark:border-white/5 shadow-sm space-y-4"
+      >
+          <div className="flex items-center justify-between">
+              <h4 className="text-sm font-bold text-surface-500 uppercase tracking-widest flex items-center gap-2">
+                  <Layers className="w-4 h-4" /> Normal Forms
+              </h4>
+              <div className="flex bg-surface-100 dark:bg-surface-800 rounded-full p-1">
+                  {(['CNF', 'DNF'] as NormalForm[]).map(form => (
+                      <button
+                          key={form}
+                          onClick={() => setNormalForm(form)}
+                          className={clsx(
+                              "px-3 py-1 rounded-full text-xs font-bold transition-all",
+                              normalForm === form ? "bg-white dark:bg-surface-700 shadow-sm text-primary-600 dark:text-primary-300" : "text-surface-500"
+                          )}
+                      >
+                          {form}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          <div className="space-y-3">
+              {conversion.steps.map((step, idx) => (
+                  <div key={idx}>
+                      <span className="text-xs font-bold text-primary-600 dark:text-primary-300 uppercase tracking-wider block mb-1">{step.rule}</span>
+                      <div className="font-mono text-sm text-surface-900 dark:text-surface-100 break-words max-h-32 overflow-y-auto">{format(step.expression)}</div>
+                  </div>
+              ))}
+          </div>
+          <div className="text-xs font-bold text-surface-400">
+              {conversion.result
+                  ? `${conversion.clauses} ${normalForm === 'CNF' ? 'clause' : 'term'}${conversion.clauses === 1 ? '' : 's'}`
+                  : `Stopped: the ${normalForm} grows past ${MAX_NORMAL_FORM_CLAUSES} ${normalForm === 'CNF' ? 'clauses' : 'terms'}. The Tseitin encoding below stays linear.`}
+          </div>
+          <div className="pt-4 border-t border-surface-200 dark:border-white/5">
+              <span className="text-xs font-bold text-surface-400 block mb-1">TSEITIN ENCODING (EQUISATISFIABLE)</span>
+              <div className="text-sm text-surface-700 dark:text-surface-200 mb-2">
+                  {encoding.variableCount} variables, {encoding.clauses.length + 1} clauses; the formula holds exactly when variable {Math.abs(encoding.root)} is {encoding.root > 0 ? 'true' : 'false'}.
+              </div>
+              <div className="font-mono text-xs text-surface-600 dark:text-surface-300 max-h-40 overflow-y-auto space-y-0.5">
+                  {encoding.inputs.map((name, i) => <div key={name}>{i + 1} = {name}</div>)}
+                  {encoding.definitions.map(d => <div key={d.variable} className="break-words">{d.variable} = {format(d.expression)}</div>)}
+              </div>
+          </div>
+      </MotionDiv>
+
+      {(analysis.paged || sat) && (
+          <p className="text-xs font-bold text-surface-400 mt-4 text-center">
+              PDF and Excel export are limited to tables of {FULL_ANALYSIS_VARIABLES} variables or fewer.
+          </p>
+      )}
+      <div className="grid grid-cols-3 gap-3 mt-4">
            <button 
                 onClick={handleExportPDF}
-                className="py-4 bg-surface-200 dark:bg-dark-containerHigh rounded-2xl font-bold text-surface-700 dark:text-surface-200 hover:bg-surface-300 dark:hover:bg-surface-700 transition-colors flex items-center justify-center gap-2"
+                disabled={!!(analysis.paged || sat)}
+                className="py-4 disabled:opacity-40 disabled:pointer-events-none bg-surface-200 dark:bg-dark-containerHigh rounded-2xl font-bold text-surface-700 dark:text-surface-200 hover:bg-surface-300 dark:hover:bg-surface-700 transition-colors flex items-center justify-center gap-2"
            >
                <FileText className="w-5 h-5" /> Export PDF
            </button>
            <button 
                 onClick={handleExportExcel}
-                className="py-4 bg-surface-200 dark:bg-dark-containerHigh rounded-2xl font-bold text-surface-700 dark:text-surface-200 hover:bg-surface-300 dark:hover:bg-surface-700 transition-colors flex items-center justify-center gap-2"
+                disabled={!!(analysis.paged || sat)}
+                className="py-4 disabled:opacity-40 disabled:pointer-events-none bg-surface-200 dark:bg-dark-containerHigh rounded-2xl font-bold text-surface-700 dark:text-surface-200 hover:bg-surface-300 dark:hover:bg-surface-700 transition-colors flex items-center justify-center gap-2"
            >
                <FileSpreadsheet className="w-5 h-5" /> Export Excel
            </button>
+           <button 
+                onClick={handleExportDimacs}
+                title="Tseitin encoding as a DIMACS .cnf file"
+                className="py-4 bg-surface-200 dark:bg-dark-containerHigh rounded-2xl font-bold text-surface-700 dark:text-surface-200 hover:bg-surface-300 dark:hover:bg-surface-700 transition-colors flex items-center justify-center gap-2"
+           >
+               <FileCode className="w-5 h-5" /> Export DIMACS
+           </button>
       </div>
 
     </div>
@@ -0,0 +1,80 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { MinimizationResult } from '../types';
+import { motion } from 'framer-motion';
+
+const MotionDiv = motion.div as any;
+
+interface MinimizationPanelProps {
+  data?: MinimizationResult;
+  // Explains why there is nothing to show, e.g. minimization was skipped for a large table
+  notice?: string;
+}
+
+// Shown instead of the Karnaugh map when there are too many (or too few) variables to draw one
+const MinimizationPanel: React.FC<MinimizationPanelProps> = ({ data, notice }) => {
+  if (!data) {
+    if (!notice) return null;
+    return (
+      <div className="p-6 flex justify-center w-full">
+        <div className="max-w-md text-sm font-medium text-slate-500 dark:text-slate-400 bg-surface-50 dark:bg-white/5 p-5 rounded-2xl border border-surface-200 dark:border-white/5">
+          {notice}
+        </div>
+      </div>
+    );
+  }
+
+  const { variables, primeImplicants, essentialPrimeImplicants, cover, expression, exact } = data;
+  const essential = new Set(essentialPrimeImplicants.map(p => p.pattern));
+  const chosen = new Set(cover.map(p => p.pattern));
+
+  return (
+    <div className="p-6 flex flex-col items-center w-full min-h-[60vh]">
+      <div className="w-full max-w-md space-y-4">
+        <div className="bg-surface-50 dark:bg-white/5 p-5 rounded-2xl border border-surface-200 dark:border-white/5">
+            <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400 mb-2">{exact ? 'Minimal' : 'Near-minimal (greedy)'} Sum of Products</h4>
+            <div className="font-mono text-xl font-medium text-primary-600 dark:text-primary-300 break-words">
+                {expression}
+            </div>
+            <p className="text-xs text-slate-400 mt-3">
+                Quine–McCluskey over {variables.length} variable{variables.length === 1 ? '' : 's'} ({variables.join(', ')})
+                {!exact && '. The prime chart was too large for Petrick\'s method, so the cover was completed greedily and may not be the smallest.'}
+            </p>
+        </div>
+
+        {primeImplicants.length > 0 && (
+            <div className="bg-white dark:bg-surface-800 rounded-2xl border border-surface-200 dark:border-white/5 overflow-hidden">
+                <div className="px-5 py-3 flex items-center justify-between border-b border-surface-200 dark:border-white/5">
+                    <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400">Prime Implicants</h4>
+                    <span className="text-xs font-bold text-slate-400">{primeImplicants.length}</span>
+                </div>
+                <div className="divide-y divide-surface-100 dark:divide-white/5">
+                    {primeImplicants.map((p, i) => (
+                        <MotionDiv
+                            key={p.pattern}
+                            initial={{ opacity: 0, y: 8 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: i * 0.03 }}
+                            className={clsx("px-5 py-3 flex items-center gap-3", !chosen.has(p.pattern) && "opacity-50")}
+                        >
+                            <div className="font-mono text-sm tracking-widest text-slate-500 dark:text-slate-400 w-24 shrink-0">{p.pattern}</div>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-mono font-bold text-slate-900 dark:text-white break-words">{p.term}</div>
+                                <div className="text-xs text-slate-400 truncate">m({p.minterms.join(', ')})</div>
+                            </div>
+                            {essential.has(p.pattern) ? (
+                                <span className="px-2 py-1 rounded-md text-[0.65rem] font-bold uppercase bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200">Essential</span>
+                            ) : chosen.has(p.pattern) && (
+                                <span className="px-2 py-1 rounded-md text-[0.65rem] font-bold uppercase bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200">In cover</span>
+                            )}
+                        </MotionDiv>
+                    ))}
+                </div>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MinimizationPanel;
@@ -1,11 +1,15 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowDown, Check, X, RefreshCw, AlertTriangle, ChevronDown, ChevronRight, GitBranch } from 'lucide-react';
+import { ArrowDown, Check, X, RefreshCw, AlertTriangle, ChevronDown, ChevronRight, GitBranch, Table2, ListEnd, Download, Lightbulb } from 'lucide-react';
 import { clsx } from 'clsx';
-import { evaluateRawExpression } from '../utils/logic';
-import { STTTBranch, STTTReport, ASTNode, AppSettings, STTTProofType } from '../types';
-import { generateSTTTReport } from '../utils/sttt';
+import { parseOptionsFromSettings, parseExpression, extractVariablesFromExpression, compareVariables } from '../utils/logic';
+import { STTTBranch, STTTReport, STTTProofPart, ASTNode, AppSettings, STTTProofType, STTTStrategy, AssignmentMap, GuidedProof, GuidedFeedback } from '../types';
+import { generateSTTTReport, generateArgumentReport } from '../utils/sttt';
+import { generateTableauReport, generateTableauArgumentReport } from '../utils/tableau';
+import { createGuidedProof, applyGuidedMove, splitGuidedBranch, claimGuidedCounterExample, guidedHint, guidedValues, guidedOutcome, guidedLeaves, gradeGuidedProof } from '../utils/stttGuided';
+import { OPERATOR_SYMBOLS } from '../utils/ast';
+import { db } from '../utils/db';
 
 const MotionDiv = motion.div as any;
 
@@ -15,19 +19,57 @@ interface STTTInteractiveProps {
     report?: STTTReport;
     ast?: ASTNode;
     settings?: AppSettings;
+    onShowRow?: (assignment: AssignmentMap) => void;
+    onStepThrough?: (assignment: AssignmentMap) => void;
 }
 
-const STTTInteractive: React.FC<STTTInteractiveProps> = ({ expression, variables, report: initialReport, ast, settings }) => {
-    const [mode, setMode] = useState<'Manual' | 'Auto'>('Auto');
+const STTTInteractive: React.FC<STTTInteractiveProps> = ({ expression, variables, report: initialReport, ast, settings, onShowRow, onStepThrough }) => {
+    const [mode, setMode] = useState<'Manual' | 'Auto' | 'Tableau'>('Auto');
+    const [signedTableau, setSignedTableau] = useState(true);
     const [proofTarget, setProofTarget] = useState<STTTProofType>('Tautology');
+    const [strategy, setStrategy] = useState<STTTStrategy>('MostConstrained');
     const [report, setReport] = useState<STTTReport | undefined>(initialReport);
+    // One premise per line, as in the Workspace; an implication starts out split into P ⊢ Q
+    const [premises, setPremises] = useState(ast?.type === 'IMPLIES' ? ast.left!.expression : '');
+    const [conclusion, setConclusion] = useState(ast?.type === 'IMPLIES' ? ast.right!.expression : (ast?.expression ?? ''));
+    const [argumentError, setArgumentError] = useState<string | null>(null);
 
     useEffect(() => {
-        if (ast && mode === 'Auto') {
-            const newReport = generateSTTTReport(ast, variables, proofTarget);
+        if (mode === 'Manual') return;
+        // The truth tree shares the target selector and reads the same assumptions
+        const tableau = mode === 'Tableau';
+        if (proofTarget === 'Argument') {
+            try {
+                const options = parseOptionsFromSettings(settings);
+                const lines = premises.split('\n').map(l => l.trim()).filter(Boolean);
+                if (!conclusion.trim()) throw new Error('Enter a conclusion');
+                const argVars = Array.from(new Set([...lines, conclusion].flatMap(f => extractVariablesFromExpression(f, options))))
+                    .sort(compareVariables);
+                const parsed = lines.map(l => parseExpression(l, options));
+                const parsedConclusion = parseExpression(conclusion, options);
+                setReport(tableau
+                    ? generateTableauArgumentReport(parsed, parsedConclusion, argVars, signedTableau)
+                    : generateArgumentReport(parsed, parsedConclusion, argVars, strategy));
+                setArgumentError(null);
+            } catch (e) {
+                setReport(undefined);
+                setArgumentError(e instanceof Error ? e.message : 'Invalid argument');
+            }
+        } else if (ast) {
+            const newReport = tableau
+                ? generateTableauReport(ast, variables, proofTarget, signedTableau)
+                : generateSTTTReport(ast, variables, proofTarget, strategy);
             setReport(newReport);
         }
-    }, [ast, proofTarget, mode, variables]);
+    }, [ast, proofTarget, strategy, signedTableau, mode, variables, premises, conclusion, settings]);
+
+    const importFromWorkspace = async () => {
+        const data = await db.getLatestWorkspace();
+        if (data) {
+            setPremises(data.premises);
+            setConclusion(data.conclusion);
+        }
+    };
 
     return (
         <div className="flex flex-col h-full bg-surface-50 dark:bg-dark-surface p-4">
@@ -50,6 +92,15 @@ const STTTInteractive: React.FC<STTTInteractiveProps> = ({ expression, variables
                      >
                         Proof Engine
                      </button>
+                     <button
+                        onClick={() => setMode('Tableau')}
+                        className={clsx(
+                            "px-6 py-2 rounded-full text-sm font-bold transition-all",
+                            mode === 'Tableau' ? "bg-white dark:bg-slate-700 shadow-sm text-primary-600 dark:text-primary-300" : "text-surface-500"
+                        )}
+                     >
+                        Truth Tree
+                     </button>
                      <button
                         onClick={() => setMode('Manual')}
                         className={clsx(
@@ -63,8 +114,8 @@ const STTTInteractive: React.FC<STTTInteractiveProps> = ({ expression, variables
              </div>
 
              {/* Proof Target Selector */}
-             {mode === 'Auto' && (
-                 <div className="flex justify-center mb-6">
+             {mode !== 'Manual' && (
+                 <div className="flex flex-wrap justify-center gap-2 mb-6">
                      <div className="flex items-center gap-2 text-sm font-medium bg-white dark:bg-dark-container px-4 py-2 rounded-xl shadow-sm border border-surface-200 dark:border-white/5">
                          <span className="text-surface-500 uppercase tracking-wider text-xs font-bold">Target:</span>
                          <select 
@@ -75,37 +126,118 @@ const STTTInteractive: React.FC<STTTInteractiveProps> = ({ expression, variables
                              <option value="Tautology">Tautology</option>
                              <option value="Contradiction">Absurdity (Contradiction)</option>
                              <option value="Contingency">Contingency</option>
-                             {ast?.type === 'IMPLIES' && <option value="Implication">Validity (P⇒Q)</option>}
+                             <option value="Argument">Argument Validity (⊢)</option>
                              {ast?.type === 'IFF' && <option value="Equivalence">Equivalence (L⇔R)</option>}
                          </select>
                      </div>
+                     {mode === 'Tableau' ? (
+                         <div className="bg-white dark:bg-dark-container p-1 rounded-xl shadow-sm border border-surface-200 dark:border-white/5 flex text-xs font-bold">
+                             {[true, false].map(signed => (
+                                 <button
+                                    key={String(signed)}
+                                    onClick={() => setSignedTableau(signed)}
+                                    className={clsx(
+                                        "px-3 py-1.5 rounded-lg transition-colors",
+                                        signedTableau === signed ? "bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300" : "text-surface-500"
+                                    )}
+                                 >
+                                    {signed ? 'Signed (T/F)' : 'Unsigned (¬)'}
+                                 </button>
+                             ))}
+                         </div>
+                     ) : (
+                         <div className="flex items-center gap-2 text-sm font-medium bg-white dark:bg-dark-container px-4 py-2 rounded-xl shadow-sm border border-surface-200 dark:border-white/5">
+                             <span className="text-surface-500 uppercase tracking-wider text-xs font-bold">Branching:</span>
+                             <select 
+                                value={strategy}
+                                onChange={(e) => setStrategy(e.target.value as STTTStrategy)}
+                                className="bg-transparent font-bold text-surface-900 dark:text-white outline-none cursor-pointer max-w-[200px]"
+                             >
+                                 <option value="FIFO">FIFO</option>
+                                 <option value="DeterministicFirst">Deterministic first</option>
+                                 <option value="MostConstrained">Most constrained</option>
+                             </select>
+                         </div>
+                     )}
+                 </div>
+             )}
+
+             {mode !== 'Manual' && proofTarget === 'Argument' && (
+                 <div className="max-w-2xl w-full mx-auto mb-6 bg-white dark:bg-dark-container p-4 rounded-2xl border border-surface-200 dark:border-white/5 space-y-3">
+                     <div className="grid gap-3 md:grid-cols-2">
+                         <label className="flex flex-col gap-1">
+                             <span className="text-xs font-bold uppercase tracking-wider text-surface-400">Premises (one per line)</span>
+                             <textarea
+                                value={premises}
+                                onChange={(e) => setPremises(e.target.value)}
+                                rows={3}
+                                spellCheck={false}
+                                placeholder="P → Q&#10;Q → R"
+                                className="bg-surface-50 dark:bg-dark-containerHigh rounded-xl px-3 py-2 font-mono text-sm text-surface-900 dark:text-white outline-none resize-none focus:ring-2 ring-primary-500/50"
+                             />
+                         </label>
+                         <label className="flex flex-col gap-1">
+                             <span className="text-xs font-bold uppercase tracking-wider text-surface-400">Conclusion</span>
+                             <input
+                                value={conclusion}
+                                onChange={(e) => setConclusion(e.target.value)}
+                                spellCheck={false}
+                                placeholder="P → R"
+                                className="bg-surface-50 dark:bg-dark-containerHigh rounded-xl px-3 py-2 font-mono text-sm text-surface-900 dark:text-white outline-none focus:ring-2 ring-primary-500/50"
+                             />
+                         </label>
+                     </div>
+                     <div className="flex items-center justify-between gap-3">
+                         <span className="text-xs font-medium text-red-500 min-w-0 truncate">{argumentError}</span>
+                         <button
+                            onClick={importFromWorkspace}
+                            className="shrink-0 flex items-center gap-2 px-3 py-1.5 rounded-full bg-surface-100 dark:bg-white/5 text-xs font-bold text-surface-700 dark:text-surface-200 hover:bg-surface-200 dark:hover:bg-white/10 transition-colors"
+                         >
+                            <Download className="w-3.5 h-3.5" /> Import from Workspace
+                         </button>
+                     </div>
                  </div>
              )}
 
-             {mode === 'Auto' && report && (
+             {mode !== 'Manual' && report && (
                  <div className="flex-1 overflow-y-auto pb-20">
-                     <AutoProof report={report} expression={expression} settings={settings} />
+                     <AutoProof report={report} expression={expression} settings={settings} onShowRow={onShowRow} onStepThrough={onStepThrough} />
                  </div>
              )}
 
              {mode === 'Manual' && (
                  <div className="flex-1 overflow-y-auto pb-20">
-                     <ManualProof expression={expression} variables={variables} settings={settings} />
+                     <ManualProof ast={ast} variables={variables} settings={settings} strategy={strategy} />
                  </div>
              )}
         </div>
     );
 };
 
-const AutoProof: React.FC<{ report: STTTReport; expression: string; settings?: AppSettings }> = ({ report, expression, settings }) => {
+interface AutoProofProps {
+    report: STTTReport;
+    expression: string;
+    settings?: AppSettings;
+    onShowRow?: (assignment: AssignmentMap) => void;
+    onStepThrough?: (assignment: AssignmentMap) => void;
+}
+
+const AutoProof: React.FC<AutoProofProps> = ({ report, expression, settings, onShowRow, onStepThrough }) => {
     
     const displayValue = (val: boolean) => {
         if (settings?.logic.truthValues === 'F/T') return val ? 'True' : 'False';
         return val ? '1' : '0';
     };
 
+    // Arguments name their assumptions P1…Pn and C so closed branches can cite them
+    const argument = report.argument;
+    const sourceLabels = argument && [...argument.premises.map((_, i) => `P${i + 1}`), 'C'];
+    // Unsigned trees carry the sign in the formula itself (¬φ), so the value badges are hidden
+    const showValues = report.tableau?.signed !== false;
+    const isUnusedPremise = (i: number) => !!argument && report.result === 'Proven' && i < argument.premises.length && !argument.usedPremises.includes(i);
+
     return (
-        <div className="space-y-6 max-w-2xl mx-auto">
+        <div className={clsx("space-y-6 mx-auto", report.parts ? "max-w-5xl" : "max-w-2xl")}>
             <MotionDiv 
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -115,22 +247,26 @@ const AutoProof: React.FC<{ report: STTTReport; expression: string; settings?: A
                 
                 <div className="flex flex-col md:flex-row items-center justify-center gap-4 mt-2">
                      <div className="flex flex-col items-center">
-                         <div className="text-xs text-surface-400 mb-1">Expression</div>
-                         <span className="font-mono text-lg font-medium">{expression}</span>
+                         <div className="text-xs text-surface-400 mb-1">{argument ? 'Argument' : 'Expression'}</div>
+                         <span className="font-mono text-lg font-medium">
+                             {argument ? `${argument.premises.join(', ')} ⊢ ${argument.conclusion}` : expression}
+                         </span>
                      </div>
                      {report.initialAssumptions.length > 0 && (
                          <>
                              <ArrowDown className="w-5 h-5 text-surface-300 rotate-90 md:rotate-0" />
                              <div className="flex flex-col items-center">
                                 <div className="text-xs text-surface-400 mb-1">Assumptions</div>
-                                <div className="flex gap-2">
+                                <div className="flex flex-wrap justify-center gap-2">
                                     {report.initialAssumptions.map((assump, i) => (
-                                        <span key={i} className={clsx(
+                                        <span key={i} title={isUnusedPremise(i) ? 'Not needed to close any branch' : undefined} className={clsx(
                                             "font-bold px-3 py-1 rounded-lg border text-sm font-mono",
                                             assump.val 
                                                 ? "text-green-600 bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-900/30"
-                                                : "text-red-500 bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-900/30"
+                                                : "text-red-500 bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-900/30",
+                                            isUnusedPremise(i) && "opacity-40 line-through"
                                         )}>
+                                            {sourceLabels && <span className="opacity-60 mr-1">{sourceLabels[i]}:</span>}
                                             {assump.expr} = {displayValue(assump.val)}
                                         </span>
                                     ))}
@@ -139,11 +275,31 @@ const AutoProof: React.FC<{ report: STTTReport; expression: string; settings?: A
                          </>
                      )}
                 </div>
+
+                <div className="flex justify-center gap-2 pt-3">
+                    {[
+                        ['Branches', report.stats.branches],
+                        ['Max depth', report.stats.maxDepth],
+                        ['Forced steps', report.stats.forcedSteps]
+                    ].map(([label, value]) => (
+                        <span key={label} className="px-3 py-1 rounded-full bg-surface-100 dark:bg-white/5 text-xs font-bold text-surface-500">
+                            {label}: <span className="text-surface-900 dark:text-white">{value}</span>
+                        </span>
+                    ))}
+                </div>
             </MotionDiv>
 
-            <div className="relative pl-4 border-l-2 border-surface-200 dark:border-surface-800 space-y-8">
-                 <BranchView branch={report.rootBranch} depth={0} settings={settings} />
-            </div>
+            {report.parts ? (
+                <div className="grid gap-4 md:grid-cols-2">
+                    {report.parts.map((part, i) => (
+                        <ProofPartView key={i} part={part} settings={settings} showValues={showValues} onShowRow={onShowRow} onStepThrough={onStepThrough} />
+                    ))}
+                </div>
+            ) : (
+                <div className="relative pl-4 border-l-2 border-surface-200 dark:border-surface-800 space-y-8">
+                     <BranchView branch={report.rootBranch} depth={0} settings={settings} sourceLabels={sourceLabels} showValues={showValues} />
+                </div>
+            )}
 
             <MotionDiv 
                 initial={{ opacity: 0, scale: 0.9 }}
@@ -170,11 +326,154 @@ const AutoProof: React.FC<{ report: STTTReport; expression: string; settings?: A
                     {report.textSummary}
                 </p>
             </MotionDiv>
+
+            {report.counterExample && !report.parts && (
+                <CounterExampleCard
+                    assignment={report.counterExample}
+                    freeVariables={report.freeVariables ?? []}
+                    verified={report.counterExampleVerified}
+                    settings={settings}
+                    onShowRow={onShowRow}
+                    onStepThrough={onStepThrough}
+                />
+            )}
         </div>
     );
 };
 
-const BranchView: React.FC<{ branch: STTTBranch; depth: number; settings?: AppSettings }> = ({ branch, depth, settings }) => {
+const ProofPartView: React.FC<{
+    part: STTTProofPart;
+    settings?: AppSettings;
+    showValues?: boolean;
+    onShowRow?: (assignment: AssignmentMap) => void;
+    onStepThrough?: (assignment: AssignmentMap) => void;
+}> = ({ part, settings, showValues, onShowRow, onStepThrough }) => {
+    const displayVal = (val: boolean) => {
+        if (settings?.logic.truthValues === 'F/T') return val ? 'T' : 'F';
+        return val ? '1' : '0';
+    };
+    const closed = part.result === 'Proven';
+
+    return (
+        <div className="flex flex-col gap-4 min-w-0">
+            <div className="bg-white dark:bg-dark-container p-4 rounded-2xl border border-surface-200 dark:border-white/5 space-y-2">
+                <div className="font-mono font-bold text-surface-900 dark:text-white break-words">{part.title}</div>
+                <div className="flex flex-wrap gap-2">
+                    {part.initialAssumptions.map((assump, i) => (
+                        <span key={i} className={clsx(
+                            "font-bold px-2 py-0.5 rounded-lg border text-xs font-mono",
+                            assump.val 
+                                ? "text-green-600 bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-900/30"
+                                : "text-red-500 bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-900/30"
+                        )}>
+                            {assump.expr} = {displayVal(assump.val)}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            <div className="relative pl-4 border-l-2 border-surface-200 dark:border-surface-800 space-y-8">
+                <BranchView branch={part.rootBranch} depth={0} settings={settings} showValues={showValues} />
+            </div>
+
+            <div className={clsx(
+                "flex items-center gap-2 text-sm font-bold p-3 rounded-xl border",
+                closed
+                    ? "text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-900/30"
+                    : "text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20 border-orange-100 dark:border-orange-900/30"
+            )}>
+                {closed ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                {closed ? 'Every branch closed' : 'Consistent assignment found'}
+            </div>
+
+            {part.counterExample && (
+                <CounterExampleCard
+                    title="Witness"
+                    assignment={part.counterExample}
+                    freeVariables={part.freeVariables ?? []}
+                    verified={part.counterExampleVerified}
+                    settings={settings}
+                    onShowRow={onShowRow}
+                    onStepThrough={onStepThrough}
+                />
+            )}
+        </div>
+    );
+};
+
+const CounterExampleCard: React.FC<{
+    title?: string;
+    assignment: AssignmentMap;
+    freeVariables: string[];
+    verified?: boolean;
+    settings?: AppSettings;
+    onShowRow?: (assignment: AssignmentMap) => void;
+    onStepThrough?: (assignment: AssignmentMap) => void;
+}> = ({ title = 'Counter-example', assignment, freeVariables, verified, settings, onShowRow, onStepThrough }) => {
+    const displayVal = (val: boolean) => {
+        if (settings?.logic.truthValues === 'F/T') return val ? 'T' : 'F';
+        return val ? '1' : '0';
+    };
+
+    return (
+        <MotionDiv 
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white dark:bg-dark-container p-5 rounded-[2rem] border border-surface-200 dark:border-white/5 space-y-4"
+        >
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-bold uppercase tracking-wider text-surface-400">{title}</span>
+                {verified ? (
+                    <span className="flex items-center gap-1 text-xs font-bold text-green-600 dark:text-green-400"><Check className="w-3 h-3" /> Checked by evaluation</span>
+                ) : (
+                    <span className="flex items-center gap-1 text-xs font-bold text-red-500"><AlertTriangle className="w-3 h-3" /> Failed evaluation check</span>
+                )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {Object.entries(assignment).map(([v, val]) => {
+                    const free = freeVariables.includes(v);
+                    return (
+                        <span key={v} className={clsx(
+                            "font-mono font-bold px-3 py-1 rounded-lg border text-sm",
+                            free
+                                ? "text-surface-500 bg-surface-100 dark:bg-white/5 border-surface-200 dark:border-white/10"
+                                : val 
+                                    ? "text-green-600 bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-900/30"
+                                    : "text-red-500 bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-900/30"
+                        )}>
+                            {v} = {free ? 'either' : displayVal(val)}
+                        </span>
+                    );
+                })}
+            </div>
+            {freeVariables.length > 0 && (
+                <p className="text-xs text-surface-400 font-medium">Variables marked "either" never took part in the proof; the row below uses {displayVal(false)} for them.</p>
+            )}
+            {(onShowRow || onStepThrough) && (
+                <div className="grid grid-cols-2 gap-2">
+                    {onShowRow && (
+                        <button onClick={() => onShowRow(assignment)} className="py-2.5 rounded-xl bg-surface-100 dark:bg-white/5 text-sm font-bold text-surface-700 dark:text-surface-200 flex items-center justify-center gap-2 hover:bg-surface-200 dark:hover:bg-white/10 transition-colors">
+                            <Table2 className="w-4 h-4" /> Show row
+                        </button>
+                    )}
+                    {onStepThrough && (
+                        <button onClick={() => onStepThrough(assignment)} className="py-2.5 rounded-xl bg-surface-100 dark:bg-white/5 text-sm font-bold text-surface-700 dark:text-surface-200 flex items-center justify-center gap-2 hover:bg-surface-200 dark:hover:bg-white/10 transition-colors">
+                            <ListEnd className="w-4 h-4" /> Step through
+                        </button>
+                    )}
+                </div>
+            )}
+        </MotionDiv>
+    );
+};
+
+const BranchView: React.FC<{
+    branch: STTTBranch;
+    depth: number;
+    settings?: AppSettings;
+    sourceLabels?: string[];
+    showValues?: boolean;
+}> = ({ branch, depth, settings, sourceLabels, showValues = true }) => {
     const [isOpen, setIsOpen] = useState(true);
 
     const displayVal = (val: boolean) => {
@@ -192,14 +491,17 @@ const BranchView: React.FC<{ branch: STTTBranch; depth: number; settings?: AppSe
                         <div className="bg-white dark:bg-dark-containerHigh p-3 rounded-xl border border-surface-200 dark:border-white/5 flex-1 shadow-sm">
                             <div className="flex justify-between items-start">
                                 <span className="font-mono font-bold text-surface-900 dark:text-white">
+                                    {step.number !== undefined && <span className="text-xs text-surface-400 mr-2">{step.number}.</span>}
                                     {step.targetNodeExpression}
                                 </span>
-                                <span className={clsx(
-                                    "text-xs font-bold px-2 py-0.5 rounded",
-                                    step.value ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
-                                )}>
-                                    {displayVal(step.value)}
-                                </span>
+                                {showValues && (
+                                    <span className={clsx(
+                                        "text-xs font-bold px-2 py-0.5 rounded",
+                                        step.value ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+                                    )}>
+                                        {displayVal(step.value)}
+                                    </span>
+                                )}
                             </div>
                             <div className="text-xs text-surface-500 mt-1 font-medium">{step.description}</div>
                         </div>
@@ -211,6 +513,11 @@ const BranchView: React.FC<{ branch: STTTBranch; depth: number; settings?: AppSe
             {branch.status === 'Closed' && (
                 <div className="flex items-center gap-2 text-green-600 dark:text-green-400 font-bold text-sm bg-green-50 dark:bg-green-900/20 p-2 rounded-lg w-fit mb-4 border border-green-100 dark:border-green-900/30">
                     <Check className="w-4 h-4" /> Contradiction Found
+                    {sourceLabels && branch.contradiction && (
+                        <span className="font-medium text-green-700/70 dark:text-green-300/70">
+                            using {branch.contradiction.sources.map(i => sourceLabels[i]).join(', ')}
+                        </span>
+                    )}
                 </div>
             )}
             
@@ -235,7 +542,7 @@ const BranchView: React.FC<{ branch: STTTBranch; depth: number; settings?: AppSe
                                 className="pl-6 border-l-2 border-dashed border-primary-200 dark:border-primary-900/40 space-y-8"
                             >
                                 {branch.children.map(child => (
-                                    <BranchView key={child.id} branch={child} depth={depth + 1} settings={settings} />
+                                    <BranchView key={child.id} branch={child} depth={depth + 1} settings={settings} sourceLabels={sourceLabels} showValues={showValues} />
                                 ))}
                             </MotionDiv>
                         )}
@@ -249,98 +556,236 @@ const BranchView: React.FC<{ branch: STTTBranch; depth: number; settings?: AppSe
 
 // --- Manual Mode ---
 
-const ManualProof: React.FC<{ expression: string; variables: string[]; settings?: AppSettings }> = ({ expression, variables, settings }) => {
-    const [mode, setMode] = useState<'Tautology' | 'Contradiction' | null>(null);
-    const [assumptions, setAssumptions] = useState<Record<string, boolean | null>>({});
-    const [result, setResult] = useState<{ status: 'Success' | 'Failure', message: string } | null>(null);
+// The formula with a value slot under every connective and atom
+const FormulaSlots: React.FC<{
+    node: ASTNode;
+    values: AssignmentMap;
+    selectedId?: string;
+    onSelect: (id: string) => void;
+    displayVal: (val: boolean) => string;
+    nested?: boolean;
+}> = ({ node, values, selectedId, onSelect, displayVal, nested }) => {
+    const slot = (label: string) => (
+        <button
+            onClick={() => onSelect(node.id)}
+            className={clsx(
+                "inline-flex flex-col items-center px-1 rounded-lg transition-colors",
+                selectedId === node.id ? "bg-primary-100 dark:bg-primary-900/40" : "hover:bg-surface-100 dark:hover:bg-white/5"
+            )}
+        >
+            <span className="text-surface-900 dark:text-white">{label}</span>
+            <span className={clsx(
+                "text-xs font-bold",
+                values[node.id] === undefined ? "text-surface-300" : values[node.id] ? "text-green-600" : "text-red-500"
+            )}>
+                {values[node.id] === undefined ? '·' : displayVal(values[node.id])}
+            </span>
+        </button>
+    );
+    const child = (c: ASTNode) => (
+        <FormulaSlots node={c} values={values} selectedId={selectedId} onSelect={onSelect} displayVal={displayVal} nested />
+    );
+
+    if (node.type === 'VAR') return slot(node.value!);
+    if (node.type === 'NOT') return <span className="inline-flex items-start">{slot(OPERATOR_SYMBOLS.NOT)}{child(node.operand!)}</span>;
+    return (
+        <span className="inline-flex items-start">
+            {nested && <span className="text-surface-400">(</span>}
+            {child(node.left!)}
+            {slot(OPERATOR_SYMBOLS[node.type])}
+            {child(node.right!)}
+            {nested && <span className="text-surface-400">)</span>}
+        </span>
+    );
+};
+
+const ManualProof: React.FC<{ ast?: ASTNode; variables: string[]; settings?: AppSettings; strategy: STTTStrategy }> = ({ ast, variables, settings, strategy }) => {
+    const [proof, setProof] = useState<GuidedProof | null>(null);
+    const [selectedId, setSelectedId] = useState<string | undefined>();
+    const [feedback, setFeedback] = useState<GuidedFeedback | null>(null);
+
+    // A new formula starts a new proof
+    useEffect(() => {
+        setProof(null);
+        setFeedback(null);
+    }, [ast]);
 
     const displayVal = (val: boolean) => {
         if (settings?.logic.truthValues === 'F/T') return val ? 'T' : 'F';
         return val ? '1' : '0';
     };
 
-    const startTest = (m: 'Tautology' | 'Contradiction') => {
-        setMode(m);
-        setAssumptions(Object.fromEntries(variables.map(v => [v, null])));
-        setResult(null);
-    };
-
-    const toggleAssumption = (v: string) => {
-        setAssumptions(prev => {
-            const current = prev[v];
-            const next = current === null ? true : current === true ? false : null;
-            return { ...prev, [v]: next };
-        });
-        setResult(null); 
-    };
+    if (!ast) return null;
 
-    const checkLogic = () => {
-        const allSet = Object.values(assumptions).every(val => val !== null);
-        if (!allSet) {
-             setResult({ status: 'Failure', message: 'Assign all variables.' });
-             return;
-        }
-        const context = assumptions as Record<string, boolean>;
-        const exprValue = evaluateRawExpression(expression, context);
-        if (mode === 'Tautology') {
-            if (exprValue === false) setResult({ status: 'Success', message: `Counter-example found! ${displayVal(false)} output disproves Tautology.` });
-            else setResult({ status: 'Failure', message: `Output is ${displayVal(true)}. Tautology not disproven yet.` });
-        } else {
-            if (exprValue === true) setResult({ status: 'Success', message: `Counter-example found! ${displayVal(true)} output disproves Contradiction.` });
-            else setResult({ status: 'Failure', message: `Output is ${displayVal(false)}. Contradiction not disproven yet.` });
-        }
+    const startTest = (target: GuidedProof['target']) => {
+        setProof(createGuidedProof(ast, target));
+        setSelectedId(undefined);
+        setFeedback(null);
     };
 
-    if (!mode) {
+    if (!proof) {
         return (
             <div className="p-6 text-center space-y-8 mt-4">
                 <div>
                     <h3 className="text-xl font-bold text-surface-900 dark:text-white">Interactive Proof</h3>
-                    <p className="text-surface-500 font-medium mt-2 max-w-xs mx-auto">Manually assign values to find counter-examples.</p>
+                    <p className="text-surface-500 font-medium mt-2 max-w-xs mx-auto">Write values under the formula yourself. Every move is checked.</p>
                 </div>
                 <div className="grid grid-cols-1 gap-4 max-w-sm mx-auto">
                     <button onClick={() => startTest('Tautology')} className="p-6 bg-blue-100 dark:bg-blue-900/30 rounded-3xl hover:scale-105 transition-transform text-left group border border-blue-200 dark:border-blue-900/30">
-                        <div className="text-blue-700 dark:text-blue-300 font-bold text-lg mb-1 group-hover:underline decoration-2">Disprove Tautology</div>
-                        <div className="text-sm text-blue-600/70 dark:text-blue-300/70 font-medium">Assume {displayVal(false)} → Find 1 case</div>
+                        <div className="text-blue-700 dark:text-blue-300 font-bold text-lg mb-1 group-hover:underline decoration-2">Test Tautology</div>
+                        <div className="text-sm text-blue-600/70 dark:text-blue-300/70 font-medium">Assume {displayVal(false)} → close every branch or find a case</div>
                     </button>
                     <button onClick={() => startTest('Contradiction')} className="p-6 bg-red-100 dark:bg-red-900/30 rounded-3xl hover:scale-105 transition-transform text-left group border border-red-200 dark:border-red-900/30">
-                        <div className="text-red-700 dark:text-red-300 font-bold text-lg mb-1 group-hover:underline decoration-2">Disprove Contradiction</div>
-                        <div className="text-sm text-red-600/70 dark:text-red-300/70 font-medium">Assume {displayVal(true)} → Find 1 case</div>
+                        <div className="text-red-700 dark:text-red-300 font-bold text-lg mb-1 group-hover:underline decoration-2">Test Contradiction</div>
+                        <div className="text-sm text-red-600/70 dark:text-red-300/70 font-medium">Assume {displayVal(true)} → close every branch or find a case</div>
                     </button>
                 </div>
             </div>
         );
     }
 
+    const branch = proof.branches[proof.activeBranchId];
+    const values = guidedValues(ast, branch);
+    const outcome = guidedOutcome(proof);
+    const grade = outcome && gradeGuidedProof(proof, generateSTTTReport(ast, variables, proof.target, strategy));
+    const selected = selectedId ? findNode(ast, selectedId) : undefined;
+
+    const apply = (result: { proof: GuidedProof; feedback: GuidedFeedback }) => {
+        setProof(result.proof);
+        setFeedback(result.feedback);
+    };
+
+    const showHint = () => {
+        const { proof: next, hint } = guidedHint(proof, ast);
+        setProof(next);
+        if (!hint) return;
+        if (hint.kind !== 'claim') setSelectedId(hint.nodeId);
+        setFeedback({ ok: true, message: hint.message });
+    };
+
+    const actionButton = "px-4 py-2 rounded-xl text-sm font-bold transition-colors disabled:opacity-40";
+
     return (
-        <div className="space-y-8 max-w-md mx-auto mt-6">
+        <div className="space-y-6 max-w-2xl mx-auto mt-6">
             <div className="flex items-center justify-between">
                 <div>
-                    <h3 className="font-bold text-surface-900 dark:text-white text-lg">Test for {mode}</h3>
-                    <div className="text-sm text-surface-500 font-medium">Assume <span className="font-mono font-bold">{mode === 'Tautology' ? displayVal(false) : displayVal(true)}</span></div>
+                    <h3 className="font-bold text-surface-900 dark:text-white text-lg">Test for {proof.target}</h3>
+                    <div className="text-sm text-surface-500 font-medium">
+                        Assume <span className="font-mono font-bold">{displayVal(proof.rootValue)}</span>
+                        <span className="ml-3 text-xs">{proof.mistakes} illegal · {proof.hintsUsed} hints</span>
+                    </div>
                 </div>
-                <button onClick={() => setMode(null)} className="p-3 bg-surface-200 dark:bg-dark-containerHigh rounded-full"><RefreshCw className="w-5 h-5 text-surface-600" /></button>
+                <button onClick={() => setProof(null)} className="p-3 bg-surface-200 dark:bg-dark-containerHigh rounded-full"><RefreshCw className="w-5 h-5 text-surface-600" /></button>
             </div>
-            <div className="w-full text-center py-8 px-4 bg-surface-100 dark:bg-dark-container rounded-[2rem]">
-                <span className="text-3xl font-mono text-surface-900 dark:text-white">{expression}</span>
-            </div>
-            <div className="flex flex-wrap gap-4 justify-center">
-                {variables.map(v => (
-                    <button key={v} onClick={() => toggleAssumption(v)} className={clsx("w-20 h-20 rounded-2xl flex flex-col items-center justify-center transition-all shadow-sm", assumptions[v] === true ? "bg-green-200 text-green-900" : assumptions[v] === false ? "bg-red-200 text-red-900" : "bg-white dark:bg-dark-container border-2 border-surface-200 dark:border-surface-700 text-surface-400")}>
-                        <span className="font-bold text-2xl mb-1">{v}</span>
-                        <span className="text-xs font-mono font-bold">{assumptions[v] === null ? '?' : displayVal(assumptions[v]!)}</span>
+
+            {/* Branches */}
+            <div className="flex flex-wrap gap-2">
+                {guidedLeaves(proof).map(b => (
+                    <button
+                        key={b.id}
+                        onClick={() => setProof({ ...proof, activeBranchId: b.id })}
+                        className={clsx(
+                            "flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold border transition-colors",
+                            b.id === proof.activeBranchId ? "border-primary-400 text-primary-700 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/20" : "border-surface-200 dark:border-white/10 text-surface-500"
+                        )}
+                    >
+                        {b.status === 'Closed' ? <X className="w-3 h-3 text-green-600" /> : b.status === 'Satisfied' ? <Check className="w-3 h-3 text-orange-500" /> : <GitBranch className="w-3 h-3" />}
+                        Branch {b.label}
                     </button>
                 ))}
             </div>
-            {result && (
-                <MotionDiv initial={{ scale: 0.8, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} className={clsx("p-5 rounded-3xl flex items-start gap-4 w-full", result.status === 'Success' ? "bg-green-100 text-green-900" : "bg-orange-100 text-orange-900")}>
-                    <div className="mt-1 bg-white/50 p-1 rounded-full">{result.status === 'Success' ? <Check className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />}</div>
-                    <span className="text-base font-bold leading-tight">{result.message}</span>
+
+            <div className="w-full text-center py-6 px-4 bg-surface-100 dark:bg-dark-container rounded-[2rem] overflow-x-auto">
+                <div className="inline-flex font-mono text-2xl">
+                    <FormulaSlots node={ast} values={values} selectedId={selectedId} onSelect={setSelectedId} displayVal={displayVal} />
+                </div>
+            </div>
+
+            {!outcome && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-sm text-surface-500 flex-1 min-w-0 truncate">
+                        {selected ? selected.expression : 'Select a subformula'}
+                    </span>
+                    <button disabled={!selected || branch.status !== 'Open'} onClick={() => apply(applyGuidedMove(proof, ast, selectedId!, true))} className={clsx(actionButton, "bg-green-100 text-green-800 hover:bg-green-200")}>= {displayVal(true)}</button>
+                    <button disabled={!selected || branch.status !== 'Open'} onClick={() => apply(applyGuidedMove(proof, ast, selectedId!, false))} className={clsx(actionButton, "bg-red-100 text-red-800 hover:bg-red-200")}>= {displayVal(false)}</button>
+                    <button disabled={!selected || branch.status !== 'Open'} onClick={() => apply(splitGuidedBranch(proof, ast, selectedId!))} className={clsx(actionButton, "bg-primary-100 text-primary-800 hover:bg-primary-200 flex items-center gap-1")}><GitBranch className="w-4 h-4" /> Split</button>
+                </div>
+            )}
+
+            {!outcome && (
+                <div className="grid grid-cols-2 gap-2">
+                    <button disabled={branch.status !== 'Open'} onClick={showHint} className={clsx(actionButton, "bg-surface-100 dark:bg-white/5 text-surface-700 dark:text-surface-200 flex items-center justify-center gap-2")}><Lightbulb className="w-4 h-4" /> Hint</button>
+                    <button disabled={branch.status !== 'Open'} onClick={() => apply(claimGuidedCounterExample(proof, ast, variables))} className={clsx(actionButton, "bg-surface-100 dark:bg-white/5 text-surface-700 dark:text-surface-200")}>Claim counter-example</button>
+                </div>
+            )}
+
+            {feedback && (
+                <MotionDiv key={feedback.message} initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} className={clsx("p-4 rounded-2xl flex items-start gap-3 w-full", feedback.ok ? "bg-green-100 text-green-900" : "bg-orange-100 text-orange-900")}>
+                    <div className="mt-0.5 bg-white/50 p-1 rounded-full">{feedback.ok ? <Check className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}</div>
+                    <span className="text-sm font-bold leading-snug">{feedback.message}</span>
+                </MotionDiv>
+            )}
+
+            {/* Moves on the path to this branch */}
+            <div className="space-y-2">
+                {branch.moves.map(move => (
+                    <div key={move.number} className="flex items-start gap-3 bg-white dark:bg-dark-containerHigh p-3 rounded-xl border border-surface-200 dark:border-white/5">
+                        <span className="text-xs text-surface-400 font-mono font-bold w-5 pt-0.5">{move.number}.</span>
+                        <div className="flex-1 min-w-0">
+                            <div className="font-mono font-bold text-surface-900 dark:text-white break-words">{move.expression}</div>
+                            <div className="text-xs text-surface-500 font-medium">{move.reason === 'Case' ? 'Case: ' : ''}{move.rule}</div>
+                        </div>
+                        <span className={clsx("text-xs font-bold px-2 py-0.5 rounded", move.value ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700")}>{displayVal(move.value)}</span>
+                    </div>
+                ))}
+                {branch.contradiction && (
+                    <div className="flex items-center gap-2 text-green-600 dark:text-green-400 font-bold text-sm bg-green-50 dark:bg-green-900/20 p-2 rounded-lg border border-green-100 dark:border-green-900/30">
+                        <Check className="w-4 h-4" /> Closed: {branch.contradiction}
+                    </div>
+                )}
+            </div>
+
+            {grade && (
+                <MotionDiv
+                    initial={{ opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className={clsx(
+                        "p-6 rounded-[2rem] border-2 space-y-3",
+                        grade.correct ? "bg-green-50 dark:bg-green-900/10 border-green-200 dark:border-green-900/30" : "bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/30"
+                    )}
+                >
+                    <h3 className="text-xl font-bold text-surface-900 dark:text-white text-center">
+                        {grade.verdict === 'Proven' ? `Every branch closed: it is a ${proof.target}` : `Counter-example found: not a ${proof.target}`}
+                    </h3>
+                    <p className="text-center text-sm font-medium text-surface-600 dark:text-surface-300">
+                        {grade.correct ? 'The proof engine agrees.' : 'The proof engine disagrees; compare with the Proof Engine tab.'}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                        {[
+                            ['Branches', `${grade.studentBranches} (engine ${grade.engineBranches})`],
+                            ['Steps', `${grade.studentSteps} (engine ${grade.engineSteps})`],
+                            ['Illegal moves', grade.mistakes],
+                            ['Hints used', grade.hintsUsed]
+                        ].map(([label, value]) => (
+                            <div key={label} className="bg-white/60 dark:bg-white/5 rounded-xl px-3 py-2">
+                                <div className="text-xs font-bold uppercase tracking-wider text-surface-400">{label}</div>
+                                <div className="font-bold text-surface-900 dark:text-white">{value}</div>
+                            </div>
+                        ))}
+                    </div>
                 </MotionDiv>
             )}
-            <button onClick={checkLogic} className="w-full py-4 bg-surface-900 dark:bg-white text-white dark:text-surface-900 rounded-full font-bold text-lg shadow-xl active:scale-95 transition-transform">Verify Assumption</button>
         </div>
     );
 };
 
+const findNode = (node: ASTNode, id: string): ASTNode | undefined => {
+    if (node.id === id) return node;
+    for (const child of [node.operand, node.left, node.right]) {
+        const found = child && findNode(child, id);
+        if (found) return found;
+    }
+    return undefined;
+};
+
 export default STTTInteractive;
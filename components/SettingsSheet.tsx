@@ -2,6 +2,7 @@
 import React from 'react';
 import { clsx } from 'clsx';
 import { AppSettings } from '../types';
+import { PRECEDENCE_PROFILES } from '../utils/logic';
 import { Check, Download, Shield, FileText } from 'lucide-react';
 
 interface SettingsSheetProps {
@@ -115,6 +116,51 @@ const SettingsSheet: React.FC<SettingsSheetProps> = ({ settings, onUpdate, insta
         </div>
       </section>
 
+      {/* Operator Precedence */}
+      <section>
+        <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-3">Operator Precedence</h3>
+        <div className="space-y-2">
+            {PRECEDENCE_PROFILES.map((profile) => (
+                <button 
+                    key={profile.id}
+                    onClick={() => updateLogic('precedenceProfile', profile.id)}
+                    className="w-full flex items-center justify-between gap-4 p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl transition-colors hover:bg-slate-50 dark:hover:bg-slate-700/50 text-left"
+                >
+                    <div>
+                        <span className="text-sm font-medium text-slate-900 dark:text-white block">{profile.label}</span>
+                        <span className="text-[11px] text-slate-500">{profile.description}</span>
+                    </div>
+                    <div className={clsx(
+                        "w-6 h-6 flex-shrink-0 rounded-full border flex items-center justify-center transition-colors",
+                        settings.logic.precedenceProfile === profile.id ? "bg-primary-600 border-primary-600" : "border-slate-300"
+                    )}>
+                        {settings.logic.precedenceProfile === profile.id && <Check className="w-4 h-4 text-white" />}
+                    </div>
+                </button>
+            ))}
+        </div>
+      </section>
+
+      {/* Variable Names */}
+      <section>
+        <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-3">Variables</h3>
+        <button 
+            onClick={() => updateLogic('caseSensitiveVariables', !settings.logic.caseSensitiveVariables)}
+            className="w-full flex items-center justify-between p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl transition-colors hover:bg-slate-50 dark:hover:bg-slate-700/50"
+        >
+            <div className="text-left">
+                <span className="text-sm font-medium text-slate-900 dark:text-white block">Case-sensitive names</span>
+                <span className="text-[10px] font-mono text-slate-500">p ≠ P, Rain ≠ RAIN</span>
+            </div>
+            <div className={clsx(
+                "w-6 h-6 rounded-full border flex items-center justify-center transition-colors",
+                settings.logic.caseSensitiveVariables ? "bg-primary-600 border-primary-600" : "border-slate-300"
+            )}>
+                {settings.logic.caseSensitiveVariables && <Check className="w-4 h-4 text-white" />}
+            </div>
+        </button>
+      </section>
+
       {/* Table Options */}
       <section>
         <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-3">Table View</h3>
@@ -71,6 +71,10 @@ const StepByStep: React.FC<StepByStepProps> = ({ ast, row, onClose }) => {
             if (node.type === 'IMPLIES') return `${lVal} → ${rVal} results in ${result ? 'True' : 'False'}.`;
             if (node.type === 'IFF') return `${lVal} ↔ ${rVal} results in ${result ? 'True' : 'False'}.`;
             if (node.type === 'XOR') return `${lVal} ⊕ ${rVal} results in ${result ? 'True' : 'False'}.`;
+            if (node.type === 'NAND') return `${lVal} NAND ${rVal} is the negation of ${lVal} AND ${rVal}, so it results in ${result ? 'True' : 'False'}.`;
+            if (node.type === 'NOR') return `${lVal} NOR ${rVal} is the negation of ${lVal} OR ${rVal}, so it results in ${result ? 'True' : 'False'}.`;
+            if (node.type === 'XNOR') return `${lVal} ⊙ ${rVal} is True exactly when both sides match, so it results in ${result ? 'True' : 'False'}.`;
+            if (node.type === 'CONVERSE') return `${lVal} ← ${rVal} reads "${node.right.expression} implies ${node.left.expression}" and results in ${result ? 'True' : 'False'}.`;
         }
         return '';
     };
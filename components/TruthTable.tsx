@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { clsx } from 'clsx';
 import { TruthTableRow, TableColumn, AppSettings } from '../types';
@@ -7,15 +7,28 @@ import { Check } from 'lucide-react';
 
 const MotionDiv = motion.div as any;
 
+// Only the rows in view (plus a margin) are rendered, at a fixed height
+const ROW_HEIGHT = 60;
+const OVERSCAN = 8;
+// Browsers cap element heights; taller tables map the scroll range onto the rows proportionally
+const MAX_BODY_HEIGHT = 8_000_000;
+// Small tables keep the staggered entrance
+const ANIMATED_ROWS = 64;
+
 interface TruthTableProps {
   rows: TruthTableRow[];
   columns: TableColumn[];
   settings: AppSettings;
   onRowSelect?: (row: TruthTableRow) => void;
   onRowChange?: (row: TruthTableRow, changedCol: TableColumn) => void;
+  highlightedRowId?: string | null;
+  markedRowIds?: string[]; // tinted rows, e.g. the models of a premise set
+  // Paged tables: rows are read on demand, named row-<index>; undefined while still loading
+  rowCount?: number;
+  getRow?: (index: number) => TruthTableRow | undefined;
 }
 
-const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowSelect, onRowChange }) => {
+const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowSelect, onRowChange, highlightedRowId, markedRowIds, rowCount, getRow }) => {
   const [selectedRowId, setSelectedRowId] = useState<string | null>(null);
   const [copiedRowId, setCopiedRowId] = useState<string | null>(null);
   const [focusedColId, setFocusedColId] = useState<string | null>(null);
@@ -23,6 +36,33 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
   const [colWidths, setColWidths] = useState<Record<string, number>>({});
   const resizingRef = useRef<{ id: string; startX: number; startWidth: number } | null>(null);
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const count = getRow ? rowCount ?? 0 : rows.length;
+  const rowAt = (i: number) => getRow ? getRow(i) : rows[i];
+  const fullHeight = count * ROW_HEIGHT;
+  const bodyHeight = Math.min(fullHeight, MAX_BODY_HEIGHT);
+  const headerHeight = headerRef.current?.offsetHeight ?? 0;
+  // How far the rows move per pixel scrolled; 1 unless the table is taller than the body cap
+  const scale = bodyHeight > viewportHeight && fullHeight > bodyHeight ? (fullHeight - viewportHeight) / (bodyHeight - viewportHeight) : 1;
+  const bodyScroll = Math.max(0, scrollTop - headerHeight);
+  const virtualTop = bodyScroll * scale;
+  const first = Math.max(0, Math.floor(virtualTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(count, Math.ceil((virtualTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const rowTop = (i: number) => bodyScroll + i * ROW_HEIGHT - virtualTop;
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const measure = () => setViewportHeight(el.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
 
   const measureText = (text: string, isHeader: boolean) => {
     const canvas = document.createElement('canvas');
@@ -44,11 +84,23 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
     setColWidths(newWidths);
   }, [columns, settings.table.dense, settings.logic.truthValues]);
 
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!highlightedRowId || !el) return;
+    const index = getRow ? Number(highlightedRowId.replace('row-', '')) : rows.findIndex(r => r.id === highlightedRowId);
+    if (index < 0) return;
+    const target = Math.max(0, index * ROW_HEIGHT - (el.clientHeight - ROW_HEIGHT) / 2) / scale;
+    el.scrollTo({ top: target + headerHeight, behavior: 'smooth' });
+  }, [highlightedRowId]);
+
   const displayValue = (val: boolean) => {
       if (settings.logic.truthValues === 'F/T') return val ? 'T' : 'F';
       return val ? '1' : '0';
   };
 
+  const displayCell = (row: TruthTableRow, col: TableColumn) =>
+      col.isOutput && row.dontCare ? 'X' : displayValue(row.values[col.expression]);
+
   const startResize = (e: React.PointerEvent, colId: string) => {
       e.preventDefault();
       e.stopPropagation();
@@ -85,7 +137,7 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
   };
 
   const handleCopyRow = (row: TruthTableRow) => {
-    const text = columns.map(c => displayValue(row.values[c.expression])).join('\t');
+    const text = columns.map(c => displayCell(row, c)).join('\t');
     navigator.clipboard.writeText(text).catch(() => {});
     if (navigator.vibrate) navigator.vibrate([10, 50]);
     setCopiedRowId(row.id);
@@ -108,8 +160,14 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
   const handleCellClick = (e: React.MouseEvent, row: TruthTableRow, col: TableColumn) => {
     if (onRowChange) {
         e.stopPropagation();
-        const newValue = !row.values[col.expression];
-        const newRow = { ...row, values: { ...row.values, [col.expression]: newValue } };
+        let newRow: TruthTableRow;
+        if (col.isOutput) {
+            // Output cells cycle 0 → 1 → X (don't care) → 0
+            const next = row.dontCare ? 0 : row.values[col.expression] ? 'X' : 1;
+            newRow = { ...row, values: { ...row.values, [col.expression]: next === 1 }, dontCare: next === 'X' };
+        } else {
+            newRow = { ...row, values: { ...row.values, [col.expression]: !row.values[col.expression] } };
+        }
         onRowChange(newRow, col);
         if (navigator.vibrate) navigator.vibrate(10);
     }
@@ -123,16 +181,21 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
       return 0.3;
   };
 
+  const marked = new Set(markedRowIds ?? []);
   const inputCols = columns.filter(c => c.isInput);
   const lastInputColId = inputCols.length > 0 ? inputCols[inputCols.length - 1].id : null;
 
   return (
     <div className="w-full h-full flex flex-col bg-surface-100 dark:bg-dark-container overflow-hidden">
-      <div className="flex-1 overflow-auto no-scrollbar pb-32 w-full">
+      <div
+        ref={scrollRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 overflow-auto no-scrollbar pb-32 w-full"
+      >
         <div className="min-w-max inline-block align-middle">
            
            {/* Header */}
-           <div className={clsx(
+           <div ref={headerRef} className={clsx(
                "z-10 bg-surface-100/95 dark:bg-dark-container/95 backdrop-blur-md flex border-b border-surface-300 dark:border-white/5",
                settings.table.stickyHeaders ? "sticky top-0" : ""
            )}>
@@ -185,17 +248,30 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
            </div>
 
            {/* Body */}
-           <div className="divide-y divide-surface-200/80 dark:divide-white/5">
-             {rows.map((row, i) => {
+           <div className="relative" style={{ height: bodyHeight }}>
+             {Array.from({ length: Math.max(0, last - first) }, (_, k) => first + k).map(i => {
+                const row = rowAt(i);
+                if (!row) {
+                    return (
+                        <div
+                            key={`loading-${i}`}
+                            style={{ top: rowTop(i), height: ROW_HEIGHT }}
+                            className="absolute left-0 right-0 flex items-center pl-6 border-b border-surface-200/80 dark:border-white/5 text-surface-400 font-mono"
+                        >
+                            …
+                        </div>
+                    );
+                }
                 const isSelected = selectedRowId === row.id;
                 const isCopied = copiedRowId === row.id;
                 const finalVal = row.values[columns[columns.length-1].expression];
                 
                 return (
                   <MotionDiv
-                    layout
                     key={row.id}
-                    initial={{ opacity: 0, y: 10 }}
+                    id={`tt-${row.id}`}
+                    style={{ top: rowTop(i), height: ROW_HEIGHT }}
+                    initial={count <= ANIMATED_ROWS ? { opacity: 0, y: 10 } : false}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: Math.min(i * 0.03, 0.5), ease: "easeOut" }}
                     onClick={() => handleRowClick(row)}
@@ -205,9 +281,13 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
                     onMouseUp={handleTouchEnd}
                     onMouseLeave={handleTouchEnd}
                     className={clsx(
-                      "flex transition-colors duration-200 select-none relative group touch-manipulation",
+                      "absolute left-0 right-0 flex border-b border-surface-200/80 dark:border-white/5 transition-colors duration-200 select-none group touch-manipulation",
                       isSelected 
                         ? "bg-primary-100 dark:bg-primary-900/30" 
+                        : row.id === highlightedRowId
+                            ? "bg-amber-100 dark:bg-amber-900/30"
+                        : marked.has(row.id)
+                            ? "bg-green-50 dark:bg-green-900/20"
                         : finalVal 
                             ? "bg-surface-50 dark:bg-dark-containerHigh" 
                             : "bg-surface-100 dark:bg-dark-container"
@@ -215,13 +295,13 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
                   >
                     {columns.map((col, colIdx) => {
                         const val = row.values[col.expression];
+                        const isDontCare = col.isOutput && row.dontCare;
                         const width = colWidths[col.id] || (col.isInput ? 64 : 120);
                         const opacity = settings.table.highlightDependencies ? getOpacity(col) : 1;
                         const isLastInput = col.id === lastInputColId;
 
                         return (
                             <MotionDiv 
-                                layout
                                 initial={false}
                                 animate={{ width: width, opacity }}
                                 transition={{ type: "spring", stiffness: 300, damping: 30 }}
@@ -239,11 +319,13 @@ const TruthTable: React.FC<TruthTableProps> = ({ rows, columns, settings, onRowS
                                 <span className={clsx(
                                     "font-mono transition-all",
                                     col.isOutput ? "text-xl font-bold" : "text-lg",
-                                    val 
+                                    isDontCare
+                                      ? "text-amber-600 dark:text-amber-400"
+                                      : val 
                                       ? (col.isOutput ? "text-primary-700 dark:text-primary-300" : "text-surface-900 dark:text-white font-semibold") 
                                       : "text-surface-400 dark:text-surface-600"
                                 )}>
-                                    {col.isOutput && isCopied ? <Check className="w-6 h-6 text-green-600 scale-125" /> : displayValue(val)}
+                                    {col.isOutput && isCopied ? <Check className="w-6 h-6 text-green-600 scale-125" /> : displayCell(row, col)}
                                 </span>
                             </MotionDiv>
                         );
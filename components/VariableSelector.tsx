@@ -3,6 +3,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { clsx } from 'clsx';
 import { Plus } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { compareVariables, isOperatorKeyword } from '../utils/logic';
 
 // Fix for strict type checking on motion components
 const MotionButton = motion.button as any;
@@ -11,12 +12,13 @@ const MotionForm = motion.form as any;
 interface VariableSelectorProps {
   selected: string[];
   suggested?: string[];
+  caseSensitive?: boolean;
   onChange: (vars: string[]) => void;
 }
 
 const PRESETS = ['A', 'B', 'C', 'D', 'E'];
 
-const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested = [], onChange }) => {
+const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested = [], caseSensitive = false, onChange }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [newVar, setNewVar] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -29,18 +31,19 @@ const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested
 
   const toggleVar = (v: string) => {
     if (selected.includes(v)) {
-      onChange(selected.filter(s => s !== v).sort());
+      onChange(selected.filter(s => s !== v).sort(compareVariables));
     } else {
-      onChange([...selected, v].sort());
+      onChange([...selected, v].sort(compareVariables));
     }
   };
 
   const handleAddSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
-    const v = newVar.trim().toUpperCase();
-    if (v && /^[A-Z][0-9]*$/.test(v)) {
+    const v = caseSensitive ? newVar.trim() : newVar.trim().toUpperCase();
+    // Same identifier shape the tokenizer accepts: P, P12, Q_2, P₁, Rain; AND, OR and the like are operators
+    if (v && /^[A-Za-z][A-Za-z0-9_₀-₉]*$/.test(v) && !isOperatorKeyword(v)) {
         if (!selected.includes(v)) {
-            onChange([...selected, v].sort());
+            onChange([...selected, v].sort(compareVariables));
         }
         setNewVar('');
         setIsAdding(false);
@@ -56,7 +59,7 @@ const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested
   };
 
   // Combine presets and any selected variables that aren't in presets (to persist custom ones)
-  const displayVars = Array.from(new Set([...PRESETS, ...selected])).sort();
+  const displayVars = Array.from(new Set([...PRESETS, ...selected])).sort(compareVariables);
 
   return (
     <div className="w-full max-w-2xl mx-auto px-1 mb-2">
@@ -81,7 +84,7 @@ const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested
                     whileTap={{ scale: 0.95 }}
                     onClick={() => toggleVar(v)}
                     className={clsx(
-                    "w-14 h-14 rounded-2xl text-xl font-bold transition-all flex items-center justify-center relative border shadow-sm",
+                    "min-w-[3.5rem] h-14 px-3 rounded-2xl text-xl font-bold transition-all flex items-center justify-center relative border shadow-sm",
                     isActive 
                         ? "bg-[#1e1e1e] dark:bg-surface-800 text-white border-white/10 shadow-lg shadow-black/20" 
                         : "bg-surface-100 dark:bg-white/5 text-surface-600 dark:text-surface-400 border-surface-200 dark:border-white/5 hover:bg-surface-200 dark:hover:bg-white/10"
@@ -114,7 +117,7 @@ const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested
                  <MotionForm
                     layout
                     initial={{ width: '3.5rem', opacity: 0 }}
-                    animate={{ width: '4.5rem', opacity: 1 }}
+                    animate={{ width: '7rem', opacity: 1 }}
                     onSubmit={handleAddSubmit}
                     className="h-14 bg-[#1e1e1e] dark:bg-surface-800 rounded-2xl border border-white/20 flex items-center overflow-hidden shadow-sm"
                  >
@@ -122,10 +125,10 @@ const VariableSelector: React.FC<VariableSelectorProps> = ({ selected, suggested
                         ref={inputRef}
                         type="text" 
                         value={newVar}
-                        onChange={e => setNewVar(e.target.value.toUpperCase().slice(0, 1))} 
+                        onChange={e => setNewVar((caseSensitive ? e.target.value : e.target.value.toUpperCase()).slice(0, 8))} 
                         onBlur={() => !newVar && setIsAdding(false)}
                         onKeyDown={handleKeyDown}
-                        className="w-full h-full text-center font-bold text-xl bg-transparent outline-none uppercase text-white"
+                        className="w-full h-full text-center font-bold text-xl bg-transparent outline-none text-white"
                         placeholder="?"
                     />
                  </MotionForm>
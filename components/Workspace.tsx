@@ -1,67 +1,308 @@
 
-import React, { useState, useEffect } from 'react';
-import { WorkspaceState, ProofStep } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { clsx } from 'clsx';
+import { ProofStep, ProofScope, AppSettings, DEFAULT_SETTINGS, ProofCheckResult, SavedWorkspace, WorkspaceStatus } from '../types';
 import { db } from '../utils/db';
+import { checkProof, scopeChain } from '../utils/deduction';
+import { parseOptionsFromSettings } from '../utils/logic';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, CheckCircle2, Save, Trash2 } from 'lucide-react';
+import FormulaSetPanel from './FormulaSetPanel';
+import { Plus, CheckCircle2, Save, Trash2, AlertCircle, Check, IndentIncrease, IndentDecrease, Library, FilePlus, Copy, Table2 } from 'lucide-react';
 
 // Fix for strict type checking on motion components
 const MotionDiv = motion.div as any;
 
-const Workspace: React.FC = () => {
+interface WorkspaceProps {
+    settings?: AppSettings;
+}
+
+const UNTITLED = 'Untitled proof';
+
+const STATUS_STYLES: Record<WorkspaceStatus, string> = {
+    Valid: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    Invalid: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+    Unchecked: 'bg-slate-100 text-slate-600 dark:bg-white/5 dark:text-slate-400'
+};
+
+const statusOf = (check: ProofCheckResult): WorkspaceStatus =>
+    check.complete ? 'Valid' : check.steps.some(s => !s.isValid) ? 'Invalid' : 'Unchecked';
+
+const emptyWorkspace = (): SavedWorkspace => ({
+    id: crypto.randomUUID(),
+    name: UNTITLED,
+    premises: '',
+    conclusion: '',
+    steps: [],
+    scopes: [],
+    updatedAt: Date.now(),
+    status: 'Unchecked'
+});
+
+// The proof itself, to tell whether it changed since it was opened or saved
+const contentKey = (w: Pick<SavedWorkspace, 'premises' | 'conclusion' | 'steps' | 'scopes'>) =>
+    JSON.stringify([w.premises, w.conclusion, w.steps, w.scopes ?? []]);
+
+const Workspace: React.FC<WorkspaceProps> = ({ settings }) => {
     const [premises, setPremises] = useState('');
     const [conclusion, setConclusion] = useState('');
     const [steps, setSteps] = useState<ProofStep[]>([]);
+    const [scopes, setScopes] = useState<ProofScope[]>([]);
     const [saved, setSaved] = useState(false);
+    const [workspaceId, setWorkspaceId] = useState('');
+    const [name, setName] = useState(UNTITLED);
+    const [library, setLibrary] = useState<SavedWorkspace[]>([]);
+    const [showLibrary, setShowLibrary] = useState(false);
+    // Deleting is permanent, so the trash button first asks for a second click
+    const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+    const [showModels, setShowModels] = useState(false);
+    const savedKey = useRef('');
+    const initialized = useRef(false);
+
+    // Re-checked on every edit; each step's isValid / error come from here
+    const check = useMemo(
+        () => checkProof(premises, conclusion, steps, scopes, parseOptionsFromSettings(settings)),
+        [premises, conclusion, steps, scopes, settings]
+    );
+
+    // Each step's subproofs, outermost first: one indentation bar per entry
+    const chains = useMemo(() => steps.map(s => scopeChain(s.scopeId, scopes).reverse()), [steps, scopes]);
+    const currentScope = steps.length > 0 ? steps[steps.length - 1].scopeId : undefined;
+
+    const dirty = contentKey({ premises, conclusion, steps, scopes }) !== savedKey.current;
 
     useEffect(() => {
-        loadWorkspace();
+        initialize();
     }, []);
 
-    const loadWorkspace = async () => {
-        const data = await db.getWorkspace();
-        if (data) {
-            setPremises(data.premises);
-            setConclusion(data.conclusion);
-            setSteps(data.steps);
-        }
+    const loadLibrary = async () => {
+        const items = await db.listWorkspaces();
+        setLibrary(items);
+        return items;
+    };
+
+    const apply = (workspace: SavedWorkspace) => {
+        setWorkspaceId(workspace.id);
+        setName(workspace.name);
+        setPremises(workspace.premises);
+        setConclusion(workspace.conclusion);
+        setSteps(workspace.steps);
+        setScopes(workspace.scopes ?? []);
+        savedKey.current = contentKey(workspace);
+    };
+
+    const startFresh = async () => {
+        const workspace = emptyWorkspace();
+        await db.saveWorkspace(workspace);
+        apply(workspace);
+        await loadLibrary();
+    };
+
+    // Reopens the most recently modified proof; runs once even when effects fire twice
+    const initialize = async () => {
+        if (initialized.current) return;
+        initialized.current = true;
+        const items = await loadLibrary();
+        if (items.length > 0) apply(items[0]);
+        else await startFresh();
+    };
+
+    const snapshot = (): SavedWorkspace => ({
+        id: workspaceId,
+        name: name.trim() || UNTITLED,
+        premises,
+        conclusion,
+        steps: check.steps,
+        scopes,
+        updatedAt: Date.now(),
+        status: statusOf(check)
+    });
+
+    const persist = async () => {
+        await db.saveWorkspace(snapshot());
+        savedKey.current = contentKey({ premises, conclusion, steps, scopes });
+        await loadLibrary();
     };
 
     const handleSave = async () => {
-        await db.saveWorkspace({ premises, conclusion, steps });
+        await persist();
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
     };
 
-    const addStep = () => {
+    // Unsaved edits are kept when switching to another proof
+    const openWorkspace = async (workspace: SavedWorkspace) => {
+        if (workspace.id !== workspaceId) {
+            if (dirty) await persist();
+            apply(workspace);
+        }
+        setShowLibrary(false);
+    };
+
+    const createWorkspace = async () => {
+        if (dirty) await persist();
+        await startFresh();
+    };
+
+    const renameWorkspace = async () => {
+        const trimmed = name.trim() || UNTITLED;
+        setName(trimmed);
+        const stored = library.find(w => w.id === workspaceId);
+        if (!stored || stored.name === trimmed) return;
+        await db.saveWorkspace({ ...stored, name: trimmed, updatedAt: Date.now() });
+        await loadLibrary();
+    };
+
+    const duplicateWorkspace = async (workspace: SavedWorkspace) => {
+        const source = workspace.id === workspaceId ? snapshot() : workspace;
+        await db.saveWorkspace({ ...source, id: crypto.randomUUID(), name: `${source.name} (copy)`, updatedAt: Date.now() });
+        await loadLibrary();
+    };
+
+    const deleteWorkspace = async (workspace: SavedWorkspace) => {
+        setPendingDelete(null);
+        await db.deleteWorkspace(workspace.id);
+        const items = await loadLibrary();
+        if (workspace.id !== workspaceId) return;
+        if (items.length > 0) apply(items[0]);
+        else await startFresh();
+    };
+
+    const addStep = (scopeId = currentScope, justification = '') => {
         setSteps([...steps, { 
             id: crypto.randomUUID(), 
             content: '', 
-            justification: '' 
+            justification,
+            scopeId
         }]);
     };
 
+    const openSubproof = () => {
+        const scope: ProofScope = { id: crypto.randomUUID(), parentId: currentScope };
+        setScopes([...scopes, scope]);
+        addStep(scope.id, 'Assume');
+    };
+
+    // Steps back out of the innermost subproof with a line that discharges it
+    const closeSubproof = () => {
+        if (!currentScope) return;
+        const start = chains.findIndex(chain => chain.includes(currentScope));
+        addStep(scopes.find(s => s.id === currentScope)?.parentId, `CP ${check.premiseCount + start + 1}-${check.premiseCount + steps.length}`);
+    };
+
     const updateStep = (id: string, field: keyof ProofStep, value: string) => {
         setSteps(steps.map(s => s.id === id ? { ...s, [field]: value } : s));
     };
 
+    // Deleting an assumption removes the whole subproof it opened
     const deleteStep = (id: string) => {
-        setSteps(steps.filter(s => s.id !== id));
+        const index = steps.findIndex(s => s.id === id);
+        const opened = check.layout[index]?.opensScope ? steps[index].scopeId : undefined;
+        const kept = steps.filter((s, i) => opened ? !chains[i].includes(opened) : s.id !== id);
+        setSteps(kept);
+        setScopes(scopes.filter(scope => kept.some(s => scopeChain(s.scopeId, scopes).includes(scope.id))));
     };
 
     return (
         <div className="h-full flex flex-col w-full max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pb-32">
-            <div className="flex items-center justify-between py-8">
-                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Logical Workspace</h2>
-                <button
-                    onClick={handleSave}
-                    className="flex items-center gap-2 px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold hover:scale-105 transition-transform"
-                >
-                    {saved ? <CheckCircle2 className="w-4 h-4" /> : <Save className="w-4 h-4" />}
-                    {saved ? 'Saved' : 'Save Work'}
-                </button>
+            <div className="flex items-center justify-between gap-4 py-8">
+                <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Logical Workspace</div>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        onBlur={renameWorkspace}
+                        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                        aria-label="Proof name"
+                        className="w-full bg-transparent text-2xl font-bold text-slate-900 dark:text-white outline-none truncate"
+                    />
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => { setShowLibrary(!showLibrary); setPendingDelete(null); }}
+                        className={clsx(
+                            "flex items-center gap-2 px-4 py-2 rounded-xl font-bold transition-colors",
+                            showLibrary
+                                ? "bg-indigo-100 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300"
+                                : "text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/5"
+                        )}
+                    >
+                        <Library className="w-4 h-4" /> Proofs ({library.length})
+                    </button>
+                    <button
+                        onClick={createWorkspace}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                    >
+                        <FilePlus className="w-4 h-4" /> New
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold hover:scale-105 transition-transform"
+                    >
+                        {saved ? <CheckCircle2 className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+                        {saved ? 'Saved' : 'Save Work'}
+                    </button>
+                </div>
             </div>
 
+            {showLibrary && (
+                <div className="mb-8 bg-white dark:bg-[#0f111a] rounded-2xl border border-slate-200 dark:border-white/5 divide-y divide-slate-100 dark:divide-white/5 shadow-sm overflow-hidden">
+                    {library.map(w => (
+                        <div
+                            key={w.id}
+                            className={clsx("flex items-center gap-3 px-4 py-3 group", w.id === workspaceId && "bg-indigo-50 dark:bg-indigo-500/10")}
+                        >
+                            <button onClick={() => openWorkspace(w)} className="flex-1 min-w-0 text-left">
+                                <div className="font-bold text-slate-900 dark:text-white truncate">
+                                    {w.name}
+                                    {w.id === workspaceId && dirty && <span className="ml-2 text-xs font-medium text-slate-400">unsaved changes</span>}
+                                </div>
+                                <div className="text-xs text-slate-500 font-mono truncate">
+                                    {w.conclusion.trim()
+                                        ? `${w.premises.split('\n').map(p => p.trim()).filter(Boolean).join(', ')} ⊢ ${w.conclusion.trim()}`
+                                        : 'No conclusion yet'}
+                                </div>
+                            </button>
+                            <span className={clsx("px-2 py-0.5 rounded font-bold uppercase tracking-wider text-[10px]", STATUS_STYLES[w.status])}>
+                                {w.status}
+                            </span>
+                            <span className="text-xs text-slate-400 whitespace-nowrap hidden sm:inline">{new Date(w.updatedAt).toLocaleString()}</span>
+                            <button
+                                onClick={() => duplicateWorkspace(w)}
+                                title="Duplicate"
+                                className="p-2 rounded-lg text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 transition-colors"
+                            >
+                                <Copy className="w-4 h-4" />
+                            </button>
+                            {pendingDelete === w.id ? (
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => deleteWorkspace(w)}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-red-500 text-white hover:bg-red-600 transition-colors"
+                                    >
+                                        Delete
+                                    </button>
+                                    <button
+                                        onClick={() => setPendingDelete(null)}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => setPendingDelete(w.id)}
+                                    title="Delete"
+                                    className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
                 {/* Premises Card */}
                 <div className="bg-[#1e2330] rounded-2xl p-6 border border-white/5 flex flex-col shadow-lg ring-1 ring-white/10">
@@ -73,6 +314,11 @@ const Workspace: React.FC = () => {
                         placeholder="P → Q&#10;Q → R"
                         spellCheck={false}
                     />
+                    {check.premiseCount > 0 && (
+                        <span className="text-xs text-slate-500 mt-2">
+                            {check.premiseCount === 1 ? 'Line 1' : `Lines 1–${check.premiseCount}`}, one premise per line
+                        </span>
+                    )}
                 </div>
                 {/* Conclusion Card */}
                 <div className="bg-[#1e2330] rounded-2xl p-6 border border-white/5 flex flex-col shadow-lg ring-1 ring-white/10">
@@ -87,6 +333,21 @@ const Workspace: React.FC = () => {
                 </div>
             </div>
 
+            <div className="mb-8">
+                <button
+                    onClick={() => setShowModels(!showModels)}
+                    className={clsx(
+                        "flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-colors mb-4",
+                        showModels
+                            ? "bg-indigo-100 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300"
+                            : "text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/5"
+                    )}
+                >
+                    <Table2 className="w-4 h-4" /> Check with a truth table
+                </button>
+                {showModels && <FormulaSetPanel premises={premises} conclusion={conclusion} settings={settings ?? DEFAULT_SETTINGS} />}
+            </div>
+
             <div className="flex items-center gap-4 mb-8">
                 <div className="h-px bg-slate-200 dark:bg-white/10 flex-1" />
                 <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Proof</span>
@@ -96,7 +357,7 @@ const Workspace: React.FC = () => {
             <div className="space-y-4">
                  {/* Steps list */}
                  <AnimatePresence>
-                     {steps.map((step, index) => (
+                     {check.steps.map((step, index) => (
                          <MotionDiv 
                             layout
                             key={step.id}
@@ -105,42 +366,95 @@ const Workspace: React.FC = () => {
                             exit={{ opacity: 0, x: 10 }}
                             className="flex gap-4 items-start group"
                          >
-                             <div className="w-8 pt-4 text-center font-mono text-slate-400 text-sm font-bold opacity-50">{index + 1}.</div>
-                             <div className="flex-1 bg-white dark:bg-[#0f111a] rounded-xl border border-slate-200 dark:border-white/5 p-1 flex shadow-sm focus-within:ring-2 ring-indigo-500/50 transition-all">
-                                 <input 
-                                     type="text" 
-                                     value={step.content}
-                                     onChange={e => updateStep(step.id, 'content', e.target.value)}
-                                     placeholder="Statement"
-                                     className="flex-1 bg-transparent px-4 py-3 font-mono text-slate-900 dark:text-white outline-none placeholder-slate-400 dark:placeholder-slate-700"
-                                 />
-                                 <div className="w-px bg-slate-100 dark:bg-white/5 my-2" />
-                                 <input 
-                                     type="text" 
-                                     value={step.justification}
-                                     onChange={e => updateStep(step.id, 'justification', e.target.value)}
-                                     placeholder="Justification"
-                                     className="flex-1 bg-transparent px-4 py-3 font-sans text-slate-600 dark:text-slate-400 outline-none placeholder-slate-400 dark:placeholder-slate-700"
-                                 />
-                                 
-                                 <button 
-                                     onClick={() => deleteStep(step.id)}
-                                     className="p-3 text-slate-300 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
-                                 >
-                                     <Trash2 className="w-4 h-4" />
-                                 </button>
+                             <div className="w-8 pt-4 text-center font-mono text-slate-400 text-sm font-bold opacity-50">{check.premiseCount + index + 1}.</div>
+                             <div className="flex-1 min-w-0 flex">
+                                 {chains[index].map((scopeId, depth) => (
+                                     <div
+                                         key={scopeId}
+                                         className={clsx(
+                                             "w-5 shrink-0 self-stretch border-l-2 border-indigo-300 dark:border-indigo-500/40",
+                                             depth === 0 && "ml-1",
+                                             chains[index + 1]?.includes(scopeId) && "-mb-4"
+                                         )}
+                                     />
+                                 ))}
+                                 <div className="flex-1 min-w-0">
+                                     <div className={clsx(
+                                         "bg-white dark:bg-[#0f111a] rounded-xl border p-1 flex shadow-sm focus-within:ring-2 ring-indigo-500/50 transition-all",
+                                         step.isValid ? "border-slate-200 dark:border-white/5" : "border-red-300 dark:border-red-500/40",
+                                         check.layout[index]?.opensScope && "border-b-2 border-b-indigo-400 dark:border-b-indigo-400"
+                                     )}>
+                                         <input 
+                                             type="text" 
+                                             value={step.content}
+                                             onChange={e => updateStep(step.id, 'content', e.target.value)}
+                                             placeholder="Statement"
+                                             className="flex-1 bg-transparent px-4 py-3 font-mono text-slate-900 dark:text-white outline-none placeholder-slate-400 dark:placeholder-slate-700"
+                                         />
+                                         <div className="w-px bg-slate-100 dark:bg-white/5 my-2" />
+                                         <input 
+                                             type="text" 
+                                             value={step.justification}
+                                             onChange={e => updateStep(step.id, 'justification', e.target.value)}
+                                             placeholder="Justification"
+                                             className="flex-1 bg-transparent px-4 py-3 font-sans text-slate-600 dark:text-slate-400 outline-none placeholder-slate-400 dark:placeholder-slate-700"
+                                         />
+                                     
+                                         <div className="px-2 flex items-center">
+                                             {step.isValid
+                                                 ? <Check className="w-4 h-4 text-green-500" />
+                                                 : <AlertCircle className="w-4 h-4 text-red-500" />}
+                                         </div>
+                                         <button 
+                                             onClick={() => deleteStep(step.id)}
+                                             className="p-3 text-slate-300 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
+                                         >
+                                             <Trash2 className="w-4 h-4" />
+                                         </button>
+                                     </div>
+                                     {step.error && <div className="text-xs text-red-500 font-medium mt-1 ml-2">{step.error}</div>}
+                                 </div>
                              </div>
                          </MotionDiv>
                      ))}
                  </AnimatePresence>
                  
-                 {/* Add Step Button */}
-                 <button
-                    onClick={addStep}
-                    className="w-full py-4 border border-dashed border-slate-300 dark:border-white/20 rounded-xl text-slate-400 font-medium hover:bg-slate-50 dark:hover:bg-white/5 transition-colors flex items-center justify-center gap-2 hover:border-indigo-400 hover:text-indigo-400"
-                 >
-                    <Plus className="w-5 h-5" /> Add Step
-                 </button>
+                 {/* Add Step / subproof buttons */}
+                 <div className="flex gap-3">
+                     <button
+                        onClick={() => addStep()}
+                        className="flex-1 py-4 border border-dashed border-slate-300 dark:border-white/20 rounded-xl text-slate-400 font-medium hover:bg-slate-50 dark:hover:bg-white/5 transition-colors flex items-center justify-center gap-2 hover:border-indigo-400 hover:text-indigo-400"
+                     >
+                        <Plus className="w-5 h-5" /> Add Step
+                     </button>
+                     <button
+                        onClick={openSubproof}
+                        title="Start a subproof with an assumption"
+                        className="px-5 py-4 border border-dashed border-slate-300 dark:border-white/20 rounded-xl text-slate-400 font-medium hover:bg-slate-50 dark:hover:bg-white/5 transition-colors flex items-center justify-center gap-2 hover:border-indigo-400 hover:text-indigo-400"
+                     >
+                        <IndentIncrease className="w-5 h-5" /> Open Subproof
+                     </button>
+                     <button
+                        onClick={closeSubproof}
+                        disabled={!currentScope}
+                        title="Discharge the innermost subproof (CP, IP or ∨E)"
+                        className="px-5 py-4 border border-dashed border-slate-300 dark:border-white/20 rounded-xl text-slate-400 font-medium hover:bg-slate-50 dark:hover:bg-white/5 transition-colors flex items-center justify-center gap-2 hover:border-indigo-400 hover:text-indigo-400 disabled:opacity-40 disabled:pointer-events-none"
+                     >
+                        <IndentDecrease className="w-5 h-5" /> Close Subproof
+                     </button>
+                 </div>
+
+                 {steps.length > 0 && (
+                     <div className={clsx(
+                         "flex items-center gap-3 p-4 rounded-xl text-sm font-bold",
+                         check.complete
+                             ? "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300"
+                             : "bg-slate-100 dark:bg-white/5 text-slate-600 dark:text-slate-300"
+                     )}>
+                         {check.complete ? <CheckCircle2 className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                         {check.summary}
+                     </div>
+                 )}
             </div>
         </div>
     );
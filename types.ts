@@ -1,5 +1,7 @@
 
-export type Operator = 'AND' | 'OR' | 'NOT' | 'IMPLIES' | 'IFF' | 'XOR';
+export type Operator = 'AND' | 'OR' | 'NOT' | 'IMPLIES' | 'IFF' | 'XOR' | 'NAND' | 'NOR' | 'XNOR' | 'CONVERSE';
+
+export type BinaryOperator = Exclude<Operator, 'NOT'>;
 
 export interface ASTNode {
   id: string;
@@ -12,6 +14,36 @@ export interface ASTNode {
   depth: number;
 }
 
+export type DiagnosticCode =
+  | 'empty-expression'
+  | 'unknown-character'
+  | 'unexpected-close'
+  | 'unclosed-group'
+  | 'adjacent-operators'
+  | 'missing-operator'
+  | 'missing-operand'
+  | 'empty-group'
+  | 'unexpected-token'
+  | 'ambiguous-grouping';
+
+// A text edit against the original input; start === end means insertion
+export interface DiagnosticFix {
+  label: string;
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface ParseDiagnostic {
+  code: DiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  // Offsets into the original (untrimmed, case-preserved) input, end exclusive
+  start: number;
+  end: number;
+  fixes: DiagnosticFix[];
+}
+
 export interface TableColumn {
   id: string;
   label: string; 
@@ -26,6 +58,7 @@ export interface TruthTableRow {
   id: string;
   values: Record<string, boolean>; 
   index: number;
+  dontCare?: boolean; // output shown as X; its stored value is ignored by classification and minimization
 }
 
 export type Classification = 'Tautology' | 'Contradiction' | 'Contingency';
@@ -40,6 +73,7 @@ export interface ImplicationForms {
 export interface KMapCell {
   value: boolean;
   mintermIndex: number;
+  dontCare?: boolean;
 }
 
 export interface KMapGroupCell {
@@ -47,10 +81,15 @@ export interface KMapGroupCell {
   c: number;
 }
 
+// Essential groups are the only cover for some 1-cell; selective ones compete for cells
+export type KMapGroupKind = 'essential' | 'selective';
+
 export interface KMapGroup {
   cells: KMapGroupCell[];
   color: string;
   term: string;
+  kind: KMapGroupKind;
+  inCover: boolean;
 }
 
 export interface KMapData {
@@ -58,47 +97,172 @@ export interface KMapData {
   rowLabels: string[];
   colLabels: string[];
   variables: string[];
-  groups: KMapGroup[];
-  minimizedExpression: string;
+  // Every prime implicant group; `inCover` marks the ones in the minimal form
+  sopGroups: KMapGroup[];   // 1-cells
+  posGroups: KMapGroup[];   // 0-cells
+  minimizedSOP: string;
+  minimizedPOS: string;
+  exactSOP: boolean;
+  exactPOS: boolean;
+}
+
+export type MinimizationForm = 'SOP' | 'POS';
+
+export interface Implicant {
+  pattern: string;     // one char per variable: '1', '0' or '-'
+  minterms: number[];  // required cells it covers, maxterms for POS (don't-cares excluded)
+  term: string;
+  literalCount: number;
+}
+
+export interface MinimizationResult {
+  form: MinimizationForm;
+  variables: string[];
+  primeImplicants: Implicant[];
+  essentialPrimeImplicants: Implicant[];
+  cover: Implicant[];  // essentials plus the cheapest completion found by Petrick's method
+  expression: string;  // minimal SOP or POS
+  exact: boolean;      // false when Petrick's method gave up and the cover was picked greedily
+}
+
+// Don't-care rows appear in neither list, so the DNF reads them as 0 and the CNF as 1
+export interface CanonicalForms {
+  minterms: number[];
+  maxterms: number[];
+  dontCares: number[];
+  dnf: string;
+  cnf: string;
 }
 
 // STTT Types
-export type STTTProofType = 'Tautology' | 'Contradiction' | 'Contingency' | 'Implication' | 'Equivalence';
+export type STTTProofType = 'Tautology' | 'Contradiction' | 'Contingency' | 'Implication' | 'Equivalence' | 'Argument';
 
 export type AssignmentMap = Record<string, boolean>;
 
+export type STTTStrategy = 'FIFO' | 'DeterministicFirst' | 'MostConstrained';
+
+export interface STTTStats {
+    branches: number;    // leaves of the proof tree
+    maxDepth: number;    // most splits on one path
+    forcedSteps: number;
+}
+
 export interface STTTStep {
     id: string;
     description: string;
     targetNodeExpression: string;
     value: boolean;
     reason: string;
+    number?: number; // forced steps are numbered along the path from the root
 }
 
 export interface STTTContradiction {
     variable: string;
     val1: boolean;
     val2: boolean;
+    step1: number; // 0 when the first value was the initial assumption
+    step2: number;
+    sources: number[]; // indices of the initial assumptions the two clashing values were derived from
 }
 
 export interface STTTBranch {
     id: string;
     parentId?: string;
     steps: STTTStep[];
-    assignments: AssignmentMap;
+    assignments: AssignmentMap;           // by atom: every occurrence of P shares one value
+    nodeValues: AssignmentMap;            // by AST node id, for showing each subformula's value
+    forcedAt: Record<string, number>;     // atom (or node id) -> step number that fixed it
+    forcedBy: Record<string, number>;     // atom (or node id) -> initial assumption it was derived from
+    stepCount: number;
     status: 'Open' | 'Closed' | 'Complete';
     children?: STTTBranch[];
     contradiction?: STTTContradiction;
 }
 
+export interface STTTProofPart {
+    title: string;
+    initialAssumptions: { expr: string, val: boolean }[];
+    rootBranch: STTTBranch;
+    result: 'Proven' | 'Disproven'; // Proven: every branch closed
+    counterExample?: AssignmentMap;
+    freeVariables?: string[];
+    counterExampleVerified?: boolean;
+    stats: STTTStats;
+}
+
 export interface STTTReport {
     target: STTTProofType;
     rootBranch: STTTBranch;
     result: 'Proven' | 'Disproven';
-    counterExample?: AssignmentMap;
+    counterExample?: AssignmentMap; // total assignment of the declared variables
+    freeVariables?: string[];       // unconstrained by the proof: either value works
+    counterExampleVerified?: boolean;
     textSummary: string;
     proofTitle: string;
     initialAssumptions: { expr: string, val: boolean }[];
+    parts?: STTTProofPart[]; // contingency and equivalence: independent sub-proofs
+    argument?: STTTArgument;
+    stats: STTTStats;        // summed over parts
+    tableau?: { signed: boolean }; // set when the tree is a semantic tableau rather than an STTT
+}
+
+export interface STTTArgument {
+    premises: string[];
+    conclusion: string;
+    usedPremises: number[]; // premises that took part in closing at least one branch
+}
+
+// Guided (manual) STTT: the student forces values and the engine checks every move
+export interface GuidedMove {
+    number: number;       // 0 for the starting assumption
+    nodeId: string;
+    expression: string;
+    value: boolean;
+    reason: 'Assumption' | 'Forced' | 'Case';
+    rule: string;         // why the move is legal, in words
+}
+
+export interface GuidedBranch {
+    id: string;
+    label: string;
+    parentId?: string;
+    values: AssignmentMap;  // by AST node id
+    moves: GuidedMove[];    // the whole path from the assumption, inherited on a split
+    status: 'Open' | 'Closed' | 'Split' | 'Satisfied';
+    contradiction?: string;
+    counterExample?: AssignmentMap;
+    children?: string[];
+}
+
+export interface GuidedProof {
+    target: 'Tautology' | 'Contradiction';
+    rootValue: boolean;
+    branches: Record<string, GuidedBranch>;
+    rootBranchId: string;
+    activeBranchId: string;
+    mistakes: number;
+    hintsUsed: number;
+}
+
+export interface GuidedFeedback {
+    ok: boolean;
+    message: string;
+}
+
+export type GuidedHint =
+    | { kind: 'force'; nodeId: string; value: boolean; message: string }
+    | { kind: 'split'; nodeId: string; message: string }
+    | { kind: 'claim'; message: string };
+
+export interface GuidedGrade {
+    verdict: 'Proven' | 'Disproven';
+    correct: boolean;
+    studentBranches: number;
+    engineBranches: number;
+    studentSteps: number;
+    engineSteps: number;
+    mistakes: number;
+    hintsUsed: number;
 }
 
 export interface RightAwayResult {
@@ -128,13 +292,96 @@ export interface AnalysisResult {
   mainConnective: Operator | 'VAR';
   implicationForms?: ImplicationForms;
   kMapData?: KMapData;
+  minimization?: MinimizationResult;
+  canonical?: CanonicalForms;
   error?: string; 
   
   // New properties
   rightAway?: RightAwayResult;
   complexity: ComplexityMetrics;
   simplificationSteps?: SimplificationStep[];
+  simplificationStopped?: boolean; // rewriting ran out of steps or only lengthened the formula
+  simplificationVerified?: boolean; // false when the rewritten form disagreed with the truth table; the derivation is hidden
   sttt?: STTTReport;
+  paged?: PagedRows;     // set instead of `rows` for tables generated page by page
+  sat?: SatDecision;     // set when the formula was classified by the SAT solver instead of a table
+}
+
+// A classification found by search; `rows` then holds only the witnesses
+export interface SatDecision {
+  variables: number;             // in the Tseitin encoding, inputs included
+  clauses: number;
+  decisions: number;
+  conflicts: number;
+  satisfying?: TruthTableRow;    // a row where the formula is true, unless it is a contradiction
+  falsifying?: TruthTableRow;    // a row where it is false, unless it is a tautology
+}
+
+// Row values of a large table, packed one byte per computed column; inputs follow from the row index
+export interface PagedRows {
+  rowCount: number;
+  pageSize: number;
+  rowOrder: AppSettings['logic']['rowOrder'];
+  computed: string[];                 // expressions of the non-input columns, in byte order
+  dontCares: number[];                // as input values (minterm indices)
+  pages: (Uint8Array | undefined)[];  // filled in as the pages arrive
+}
+
+// Messages from the analysis worker: packed pages of a large table, then the result or an error
+export type AnalysisWorkerMessage =
+  | { type: 'page'; start: number; data: Uint8Array }
+  | { type: 'result'; analysis: AnalysisResult }
+  | { type: 'error'; message: string; diagnostics?: ParseDiagnostic[] };
+
+// A fresh analysis of an expression, or a re-analysis after the user edited output cells
+export type AnalysisWorkerRequest =
+  | { method: 'table' | 'sat'; expression: string; variables: string[]; settings: AppSettings }
+  | { method: 'rows'; analysis: AnalysisResult; rows: TruthTableRow[]; settings: AppSettings };
+
+// How two formulas relate over the union of their variables
+export type ComparisonVerdict = 'Equivalent' | 'LeftImpliesRight' | 'RightImpliesLeft' | 'Neither';
+
+export interface ComparisonResult {
+  variables: string[];
+  columns: TableColumn[];        // the shared variables, then both output columns
+  rows: TruthTableRow[];         // every row, or only the distinguishing ones when decided by SAT
+  verdict: ComparisonVerdict;
+  distinguishingRow?: TruthTableRow; // first row where the two outputs differ
+  decidedBySat: boolean;
+}
+
+// Whether a premise already follows from the other premises
+export interface PremiseIndependence {
+  index: number;
+  independent: boolean;
+  witness?: TruthTableRow; // a row where the others hold and this premise fails
+}
+
+export interface FormulaSetAnalysis {
+  variables: string[];
+  columns: TableColumn[];        // the variables, one column per premise, then the conclusion if given
+  rows: TruthTableRow[];
+  models: TruthTableRow[];       // rows where every premise is true
+  consistent: boolean;
+  entails?: boolean;             // Γ ⊨ φ; undefined without a conclusion
+  counterModel?: TruthTableRow;  // a model of the premises where the conclusion is false
+  independence: PremiseIndependence[];
+}
+
+export type PrecedenceProfileId = 'textbook' | 'rosen' | 'strict' | 'programming' | 'classic';
+
+export interface PrecedenceLevel {
+  operators: BinaryOperator[];
+  assoc: 'left' | 'right' | 'none';
+  // With 'none', repeats of these operators may still be chained (P ∧ Q ∧ R)
+  chainable?: BinaryOperator[];
+}
+
+export interface PrecedenceProfile {
+  id: PrecedenceProfileId;
+  label: string;
+  description: string;
+  levels: PrecedenceLevel[]; // loosest-binding first
 }
 
 export interface AppSettings {
@@ -142,6 +389,8 @@ export interface AppSettings {
     negationHandling: 'preserve' | 'normalize' | 'simplify'; 
     truthValues: '0/1' | 'F/T';
     rowOrder: '0→1' | '1→0';
+    caseSensitiveVariables: boolean;
+    precedenceProfile: PrecedenceProfileId;
   };
   table: {
     stickyHeaders: boolean;
@@ -156,6 +405,8 @@ export const DEFAULT_SETTINGS: AppSettings = {
     negationHandling: 'preserve',
     truthValues: '0/1',
     rowOrder: '1→0',
+    caseSensitiveVariables: false,
+    precedenceProfile: 'textbook',
   },
   table: {
     stickyHeaders: true,
@@ -177,12 +428,39 @@ export interface ProofStep {
     id: string;
     content: string;
     justification: string;
+    scopeId?: string;      // innermost subproof holding this line; unset for the main proof
     isValid?: boolean;
     error?: string;
 }
 
+// A Fitch subproof: opened by its first line (an assumption), nested inside `parentId`
+export interface ProofScope {
+    id: string;
+    parentId?: string;
+}
+
+export interface ProofCheckResult {
+    steps: ProofStep[];    // with isValid / error filled in
+    premiseCount: number;  // premises are lines 1…premiseCount; steps follow
+    layout: { depth: number; opensScope: boolean }[];  // per step, for the indentation bars
+    complete: boolean;
+    summary: string;
+}
+
 export interface WorkspaceState {
     premises: string; 
     conclusion: string; 
     steps: ProofStep[];
+    scopes?: ProofScope[];
+}
+
+// Valid: the proof reaches its conclusion; Invalid: some line fails; Unchecked: empty or still in progress
+export type WorkspaceStatus = 'Unchecked' | 'Valid' | 'Invalid';
+
+// A named proof in the workspace library
+export interface SavedWorkspace extends WorkspaceState {
+    id: string;
+    name: string;
+    updatedAt: number;
+    status: WorkspaceStatus;
 }
@@ -0,0 +1,31 @@
+import { AnalysisWorkerMessage, AnalysisWorkerRequest } from '../types';
+import { analyzeBySat, analyzeLogic, ParseError, reanalyzeFromRows } from './logic';
+
+/**
+ * Analysis Worker
+ *
+ * Runs `analyzeLogic` off the main thread. Large tables are posted page by page as they are
+ * generated (the buffers are transferred, not copied); the result follows without row objects.
+ * Formulas past the table limit are decided by the SAT solver here too, so a hard search can be
+ * cancelled the same way, and edited tables are re-minimized here so typing stays responsive.
+ */
+
+const post = (message: AnalysisWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+    const request = event.data;
+    try {
+        const analysis = request.method === 'rows'
+            ? reanalyzeFromRows(request.analysis, request.rows, request.settings)
+            : request.method === 'sat'
+            ? analyzeBySat(request.expression, request.variables, request.settings)
+            : analyzeLogic(request.expression, request.variables, request.settings, (start, data) => post({ type: 'page', start, data }, [data.buffer]));
+        post({ type: 'result', analysis });
+    } catch (e) {
+        post({
+            type: 'error',
+            message: e instanceof Error ? e.message : 'Invalid expression',
+            diagnostics: e instanceof ParseError ? e.diagnostics : undefined
+        });
+    }
+};
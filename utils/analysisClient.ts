@@ -0,0 +1,74 @@
+import { AnalysisResult, AnalysisWorkerMessage, AnalysisWorkerRequest, AppSettings, TruthTableRow } from '../types';
+import { PAGE_SIZE, ParseError } from './logic';
+
+/**
+ * Analysis Jobs
+ *
+ * Starts a worker per analysis so a running generation can be cancelled by terminating it.
+ * Pages of a large table are collected as they arrive and attached to the result.
+ * Re-analysing an edited table runs the same way, since minimizing it can take a while.
+ */
+
+export interface AnalysisProgress {
+    done: number;
+    total: number;
+}
+
+export interface AnalysisJob {
+    result: Promise<AnalysisResult>;
+    cancel: () => void;
+}
+
+export class AnalysisCancelledError extends Error {
+    constructor() {
+        super('Generation cancelled');
+        this.name = 'AnalysisCancelledError';
+    }
+}
+
+const runJob = (request: AnalysisWorkerRequest, total: number, onProgress?: (progress: AnalysisProgress) => void): AnalysisJob => {
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    const pages: Uint8Array[] = [];
+    let cancel = () => {};
+
+    const result = new Promise<AnalysisResult>((resolve, reject) => {
+        cancel = () => {
+            worker.terminate();
+            reject(new AnalysisCancelledError());
+        };
+        worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'page') {
+                pages[message.start / PAGE_SIZE] = message.data;
+                onProgress?.({ done: Math.min(message.start + PAGE_SIZE, total), total });
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'error') {
+                reject(message.diagnostics ? new ParseError(message.diagnostics) : new Error(message.message));
+                return;
+            }
+            const { analysis } = message;
+            resolve(analysis.paged ? { ...analysis, paged: { ...analysis.paged, pages } } : analysis);
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message || 'Analysis failed'));
+        };
+    });
+
+    worker.postMessage(request);
+    return { result, cancel };
+};
+
+export const startAnalysis = (
+    expression: string,
+    variables: string[],
+    settings: AppSettings,
+    onProgress?: (progress: AnalysisProgress) => void,
+    method: 'table' | 'sat' = 'table'
+): AnalysisJob => runJob({ expression, variables, settings, method }, Math.pow(2, variables.length), onProgress);
+
+// Classification, minimization and canonical forms of a table whose output cells were edited
+export const startReanalysis = (analysis: AnalysisResult, rows: TruthTableRow[], settings: AppSettings): AnalysisJob =>
+    runJob({ method: 'rows', analysis, rows, settings }, rows.length);
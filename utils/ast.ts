@@ -0,0 +1,41 @@
+import { ASTNode, BinaryOperator, Operator } from '../types';
+
+export const OPERATOR_SYMBOLS: Record<Operator, string> = {
+  NOT: '¬', AND: '∧', OR: '∨', IMPLIES: '→', IFF: '↔', XOR: '⊕',
+  NAND: '↑', NOR: '↓', XNOR: '⊙', CONVERSE: '←'
+};
+
+/**
+ * AST Construction
+ *
+ * Builders for formulas the engines derive themselves (rewrites, normal forms, minimized terms).
+ * Binary children are always parenthesized, except in ∧ and ∨ chains, so the printed form reads
+ * the same under every precedence convention. ↔, ⊙ and ⊕ are associative too, but profiles with
+ * assoc 'none' reject their unparenthesized chains.
+ */
+
+const ASSOCIATIVE: Operator[] = ['AND', 'OR'];
+let synthIdCounter = 0;
+const synthId = () => `syn-${synthIdCounter++}`;
+
+const wrapOperand = (child: ASTNode, parent?: Operator, side?: 'left' | 'right'): string => {
+    if (child.type === 'VAR' || child.type === 'NOT') return child.expression;
+    if (parent && child.type === parent && side === 'left' && ASSOCIATIVE.includes(parent)) return child.expression;
+    return `(${child.expression})`;
+};
+
+export const varNode = (name: string): ASTNode => ({
+    id: synthId(), type: 'VAR', value: name, expression: name, depth: 0
+});
+
+export const notNode = (operand: ASTNode): ASTNode => ({
+    id: synthId(), type: 'NOT', operand,
+    expression: `¬${wrapOperand(operand)}`,
+    depth: operand.depth + 1
+});
+
+export const binaryNode = (type: BinaryOperator, left: ASTNode, right: ASTNode): ASTNode => ({
+    id: synthId(), type, left, right,
+    expression: `${wrapOperand(left, type, 'left')} ${OPERATOR_SYMBOLS[type]} ${wrapOperand(right, type, 'right')}`,
+    depth: Math.max(left.depth, right.depth) + 1
+});
@@ -0,0 +1,91 @@
+import { AppSettings, ASTNode, ComparisonResult, ComparisonVerdict, TableColumn, TruthTableRow } from '../types';
+import { binaryNode, notNode } from './ast';
+import { assignmentRowIndex, compareVariables, compileAST, extractVariablesFromExpression, formatLabel, parseOptionsFromSettings, prepareFormula, rowIndexValue, rowInputs } from './logic';
+import { formatTermList } from './notation';
+import { solveCNF, tseitinEncode } from './sat';
+
+/**
+ * Formula Comparison
+ *
+ * Evaluates both formulas over the union of their variables, so their truth tables list the same
+ * assignments in the same order and can be read side by side. A ⊨ B when no row makes A true and
+ * B false; equivalence is entailment both ways. The first row where the outputs differ is the
+ * distinguishing assignment.
+ *
+ * Past MAX_COMPARE_VARIABLES the joint table is not built: A ∧ ¬B and B ∧ ¬A are handed to the
+ * SAT solver instead, and their models are the only rows shown.
+ */
+
+export const MAX_COMPARE_VARIABLES = 12;
+
+// Row values are keyed by column; "#" keeps these keys apart from variable names
+const LEFT_KEY = '#A';
+const RIGHT_KEY = '#B';
+
+export const compareFormulas = (leftExpression: string, rightExpression: string, settings: AppSettings): ComparisonResult => {
+    const options = parseOptionsFromSettings(settings);
+    const variables = Array.from(new Set([
+        ...extractVariablesFromExpression(leftExpression, options),
+        ...extractVariablesFromExpression(rightExpression, options)
+    ])).sort(compareVariables);
+
+    const left = prepareFormula(leftExpression, variables, settings);
+    const right = prepareFormula(rightExpression, variables, settings);
+    const label = ({ ast, termList }: typeof left) => termList ? formatTermList(termList) : formatLabel(ast.expression, settings);
+
+    const columns: TableColumn[] = [
+        ...variables.map(v => ({ id: `var-${v}`, label: v, expression: v, isInput: true, isOutput: false })),
+        { id: 'compare-left', label: `A: ${label(left)}`, expression: LEFT_KEY, isInput: false, isOutput: true },
+        { id: 'compare-right', label: `B: ${label(right)}`, expression: RIGHT_KEY, isInput: false, isOutput: true }
+    ];
+
+    const leftCompiled = compileAST(left.ast, variables);
+    const rightCompiled = compileAST(right.ast, variables);
+    const leftSlot = leftCompiled.slotOf[left.ast.id];
+    const rightSlot = rightCompiled.slotOf[right.ast.id];
+    const makeRow = (inputs: boolean[], index: number): TruthTableRow => {
+        const values: Record<string, boolean> = {};
+        variables.forEach((v, k) => { values[v] = inputs[k]; });
+        values[LEFT_KEY] = leftCompiled.run(inputs)[leftSlot];
+        values[RIGHT_KEY] = rightCompiled.run(inputs)[rightSlot];
+        return { id: `row-${index}`, index, values };
+    };
+
+    let rows: TruthTableRow[] = [];
+    const decidedBySat = variables.length > MAX_COMPARE_VARIABLES;
+    if (!decidedBySat) {
+        const numRows = Math.pow(2, variables.length);
+        for (let i = 0; i < numRows; i++) {
+            rows.push(makeRow(rowInputs(rowIndexValue(i, variables.length, settings.logic.rowOrder), variables.length), i));
+        }
+    } else {
+        // A row making x true and y false, if there is one
+        const witness = (x: ASTNode, y: ASTNode): TruthTableRow | undefined => {
+            const encoding = tseitinEncode(binaryNode('AND', x, notNode(y)), variables);
+            const { model } = solveCNF({ variableCount: encoding.variableCount, clauses: [...encoding.clauses, [encoding.root]] });
+            if (!model) return undefined;
+            const inputs = variables.map((_, k) => model[k + 1]);
+            const assignment = Object.fromEntries(variables.map((v, k) => [v, inputs[k]]));
+            return makeRow(inputs, assignmentRowIndex(assignment, variables, settings.logic.rowOrder));
+        };
+        rows = [witness(left.ast, right.ast), witness(right.ast, left.ast)]
+            .filter((r): r is TruthTableRow => !!r)
+            .sort((a, b) => a.index - b.index);
+    }
+
+    const leftImpliesRight = rows.every(row => !row.values[LEFT_KEY] || row.values[RIGHT_KEY]);
+    const rightImpliesLeft = rows.every(row => !row.values[RIGHT_KEY] || row.values[LEFT_KEY]);
+    let verdict: ComparisonVerdict = 'Neither';
+    if (leftImpliesRight && rightImpliesLeft) verdict = 'Equivalent';
+    else if (leftImpliesRight) verdict = 'LeftImpliesRight';
+    else if (rightImpliesLeft) verdict = 'RightImpliesLeft';
+
+    return {
+        variables,
+        columns,
+        rows,
+        verdict,
+        distinguishingRow: rows.find(row => row.values[LEFT_KEY] !== row.values[RIGHT_KEY]),
+        decidedBySat
+    };
+};
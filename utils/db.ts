@@ -1,32 +1,53 @@
 
 import { openDB, IDBPDatabase } from 'idb';
-import { HistoryItem, WorkspaceState } from '../types';
+import { HistoryItem, SavedWorkspace, WorkspaceState } from '../types';
 
 const DB_NAME = 'logicflow-db';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 interface LogicFlowDB {
     history: {
         key: string;
         value: HistoryItem;
     };
+    // Version 1 kept a single proof under the key 'current'; removed by the version 2 upgrade
     workspace: {
         key: string;
         value: WorkspaceState;
     };
+    workspaces: {
+        key: string;
+        value: SavedWorkspace;
+        indexes: { updatedAt: number };
+    };
 }
 
 let dbPromise: Promise<IDBPDatabase<LogicFlowDB>>;
 
 if (typeof window !== 'undefined') {
     dbPromise = openDB<LogicFlowDB>(DB_NAME, DB_VERSION, {
-        upgrade(db) {
+        async upgrade(db, oldVersion, _newVersion, transaction) {
             if (!db.objectStoreNames.contains('history')) {
                 const historyStore = db.createObjectStore('history', { keyPath: 'id' });
                 historyStore.createIndex('timestamp', 'timestamp');
             }
-            if (!db.objectStoreNames.contains('workspace')) {
-                db.createObjectStore('workspace');
+            if (!db.objectStoreNames.contains('workspaces')) {
+                const workspaceStore = db.createObjectStore('workspaces', { keyPath: 'id' });
+                workspaceStore.createIndex('updatedAt', 'updatedAt');
+            }
+            // The single version 1 proof becomes the first entry of the library
+            if (oldVersion < 2 && db.objectStoreNames.contains('workspace')) {
+                const current = await transaction.objectStore('workspace').get('current');
+                if (current) {
+                    await transaction.objectStore('workspaces').put({
+                        ...current,
+                        id: crypto.randomUUID(),
+                        name: 'Untitled proof',
+                        updatedAt: Date.now(),
+                        status: 'Unchecked'
+                    });
+                }
+                db.deleteObjectStore('workspace');
             }
         },
     });
@@ -53,13 +74,30 @@ export const db = {
         return db.clear('history');
     },
 
-    async saveWorkspace(state: WorkspaceState) {
+    async saveWorkspace(workspace: SavedWorkspace) {
+        const db = await dbPromise;
+        return db.put('workspaces', workspace);
+    },
+
+    async getWorkspace(id: string) {
         const db = await dbPromise;
-        return db.put('workspace', state, 'current');
+        return db.get('workspaces', id);
+    },
+
+    // Most recently modified first
+    async listWorkspaces() {
+        const db = await dbPromise;
+        const items = await db.getAllFromIndex('workspaces', 'updatedAt');
+        return items.reverse();
+    },
+
+    async getLatestWorkspace() {
+        const items = await this.listWorkspaces();
+        return items[0];
     },
 
-    async getWorkspace() {
+    async deleteWorkspace(id: string) {
         const db = await dbPromise;
-        return db.get('workspace', 'current');
+        return db.delete('workspaces', id);
     }
 };
@@ -0,0 +1,274 @@
+import { ASTNode, ProofCheckResult, ProofScope, ProofStep } from '../types';
+import { fullyParenthesize, parseExpression, ParseOptions } from './logic';
+
+/**
+ * Natural Deduction Checker
+ *
+ * Lines are numbered premises first, then proof steps. A justification names a rule and the
+ * lines it cites: "MP 1,2", "DeM 4", "CP 3-6". Inference rules (MP, MT, HS, DS, Simp, Conj, Add,
+ * Reit) apply to whole lines; replacement rules (DN, DeM) may rewrite any subformula.
+ *
+ * Subproofs are Fitch-style scopes. Each step names its innermost scope, and each scope its
+ * parent. A scope's first line is an assumption ("Assume", "ACP", "AIP"); it ends at the first
+ * later line outside it. CP, IP and ∨E cite closed subproofs as ranges from the assumption to the
+ * subproof's last line: "CP 3-6", "∨E 2, 3-5, 6-8". A line can only be cited while its scope is
+ * still open, i.e. from inside the same scope or one nested in it.
+ */
+
+type RuleCheck = (cited: ASTNode[], result: ASTNode) => boolean;
+
+interface Justification {
+    rule: string;
+    lines: number[];
+    ranges: [number, number][];
+}
+
+const same = (a: ASTNode, b: ASTNode) => fullyParenthesize(a) === fullyParenthesize(b);
+const isNegationOf = (a: ASTNode, b: ASTNode) => a.type === 'NOT' && same(a.operand!, b);
+const isType = (n: ASTNode, type: ASTNode['type']) => n.type === type && !!n.left && !!n.right;
+
+// The cited lines in either order
+const eitherOrder = (cited: ASTNode[], check: (a: ASTNode, b: ASTNode) => boolean) =>
+    cited.length === 2 && (check(cited[0], cited[1]) || check(cited[1], cited[0]));
+
+// `b` is `a` with some subformulas replaced by equivalents under `equivalent`
+const replaces = (a: ASTNode, b: ASTNode, equivalent: (x: ASTNode, y: ASTNode) => boolean): boolean => {
+    if (equivalent(a, b)) return true;
+    if (a.type !== b.type || a.value !== b.value) return false;
+    const pairs: [ASTNode | undefined, ASTNode | undefined][] = [[a.operand, b.operand], [a.left, b.left], [a.right, b.right]];
+    return pairs.every(([x, y]) => (!x && !y) || (!!x && !!y && (same(x, y) || replaces(x, y, equivalent))));
+};
+
+const doubleNegation = (x: ASTNode, y: ASTNode) =>
+    (y.type === 'NOT' && isNegationOf(y.operand!, x)) || (x.type === 'NOT' && isNegationOf(x.operand!, y));
+
+// ¬(p ∧ q) ≡ ¬p ∨ ¬q and ¬(p ∨ q) ≡ ¬p ∧ ¬q
+const deMorgan = (x: ASTNode, y: ASTNode): boolean => {
+    const oneWay = (neg: ASTNode, split: ASTNode) => {
+        if (neg.type !== 'NOT') return false;
+        const inner = neg.operand!;
+        const dual = inner.type === 'AND' ? 'OR' : inner.type === 'OR' ? 'AND' : null;
+        return !!dual && isType(split, dual) && isNegationOf(split.left!, inner.left!) && isNegationOf(split.right!, inner.right!);
+    };
+    return oneWay(x, y) || oneWay(y, x);
+};
+
+const LABELS: Record<string, string> = { SIMP: 'Simp', CONJ: 'Conj', ADD: 'Add', DEM: 'DeM', REIT: 'Reit' };
+
+const RULES: Record<string, RuleCheck> = {
+    MP: (cited, r) => eitherOrder(cited, (imp, p) => isType(imp, 'IMPLIES') && same(imp.left!, p) && same(imp.right!, r)),
+    MT: (cited, r) => eitherOrder(cited, (imp, notQ) =>
+        isType(imp, 'IMPLIES') && isNegationOf(notQ, imp.right!) && isNegationOf(r, imp.left!)),
+    HS: (cited, r) => eitherOrder(cited, (first, second) =>
+        isType(first, 'IMPLIES') && isType(second, 'IMPLIES') && isType(r, 'IMPLIES')
+        && same(first.right!, second.left!) && same(r.left!, first.left!) && same(r.right!, second.right!)),
+    DS: (cited, r) => eitherOrder(cited, (or, neg) => isType(or, 'OR')
+        && ((isNegationOf(neg, or.left!) && same(r, or.right!)) || (isNegationOf(neg, or.right!) && same(r, or.left!)))),
+    SIMP: (cited, r) => cited.length === 1 && isType(cited[0], 'AND') && (same(cited[0].left!, r) || same(cited[0].right!, r)),
+    CONJ: (cited, r) => isType(r, 'AND') && eitherOrder(cited, (a, b) => same(r.left!, a) && same(r.right!, b)),
+    ADD: (cited, r) => cited.length === 1 && isType(r, 'OR') && (same(r.left!, cited[0]) || same(r.right!, cited[0])),
+    DN: (cited, r) => cited.length === 1 && replaces(cited[0], r, doubleNegation),
+    DEM: (cited, r) => cited.length === 1 && replaces(cited[0], r, deMorgan),
+    REIT: (cited, r) => cited.length === 1 && same(cited[0], r),
+};
+
+const ALIASES: Record<string, string> = {
+    'MODUS PONENS': 'MP', '→E': 'MP', 'MODUS TOLLENS': 'MT', 'HYPOTHETICAL SYLLOGISM': 'HS', 'DISJUNCTIVE SYLLOGISM': 'DS',
+    'SIMPLIFICATION': 'SIMP', '∧E': 'SIMP', 'CONJUNCTION': 'CONJ', '∧I': 'CONJ', 'ADDITION': 'ADD', '∨I': 'ADD',
+    'DOUBLE NEGATION': 'DN', 'DE MORGAN': 'DEM', "DE MORGAN'S": 'DEM', '→I': 'CP', '¬I': 'IP',
+    'REITERATION': 'REIT', 'R': 'REIT', '∨E': 'ORE', 'OR ELIMINATION': 'ORE', 'PROOF BY CASES': 'ORE', 'CASES': 'ORE',
+    'ASSUMPTION': 'ASSUME', 'ACP': 'ASSUME', 'AIP': 'ASSUME', 'HYP': 'ASSUME', 'PR': 'PREMISE'
+};
+
+const RULE_NAMES = 'MP, MT, HS, DS, Simp, Conj, Add, DN, DeM, Reit, CP, IP, ∨E, Assume';
+
+export const parseJustification = (text: string): Justification | null => {
+    const match = text.trim().match(/^(.*?)\s*((?:\d+\s*(?:[-–]\s*\d+)?\s*,?\s*)*)$/);
+    if (!match || !match[1]) return null;
+    const name = match[1].trim().toUpperCase();
+    const rule = ALIASES[name] ?? name;
+    const lines: number[] = [];
+    const ranges: [number, number][] = [];
+    for (const ref of match[2].match(/\d+\s*[-–]\s*\d+|\d+/g) ?? []) {
+        const [from, to] = ref.split(/[-–]/).map(n => parseInt(n, 10));
+        if (to === undefined) lines.push(from);
+        else ranges.push([from, to]);
+    }
+    return { rule, lines, ranges };
+};
+
+// The scope and its ancestors, innermost first; the main proof (undefined) is left implicit
+export const scopeChain = (scopeId: string | undefined, scopes: ProofScope[]): string[] => {
+    const chain: string[] = [];
+    for (let id = scopeId; id !== undefined && !chain.includes(id); id = scopes.find(s => s.id === id)?.parentId) {
+        chain.push(id);
+    }
+    return chain;
+};
+
+// φ ∧ ¬φ in either order, or the constant 0
+const isContradiction = (n: ASTNode) =>
+    (n.type === 'VAR' && n.value === '0') || (isType(n, 'AND') && (isNegationOf(n.left!, n.right!) || isNegationOf(n.right!, n.left!)));
+
+interface Subproof {
+    assumption: ASTNode;
+    result: ASTNode;
+}
+
+// Checks a line that discharges subproofs (CP, IP, ∨E); returns the error, if any
+const discharge = ({ rule, lines, ranges }: Justification, formula: ASTNode, cited: ASTNode[], subproofs: Subproof[]): string | null => {
+    const [{ assumption, result }] = subproofs;
+    const [[from, to]] = ranges;
+    if (rule === 'CP') {
+        return isType(formula, 'IMPLIES') && same(formula.left!, assumption) && same(formula.right!, result)
+            ? null
+            : `CP ${from}-${to} gives ${assumption.expression} → ${result.expression}`;
+    }
+    if (rule === 'IP') {
+        if (!isContradiction(result)) return `Line ${to} is not a contradiction (φ ∧ ¬φ)`;
+        return isNegationOf(formula, assumption) || isNegationOf(assumption, formula) ? null : `IP ${from}-${to} gives the negation of ${assumption.expression}`;
+    }
+    const [or] = cited;
+    const [first, second] = subproofs;
+    if (!isType(or, 'OR')) return `Line ${lines[0]} is not a disjunction`;
+    const cases = (same(first.assumption, or.left!) && same(second.assumption, or.right!))
+        || (same(first.assumption, or.right!) && same(second.assumption, or.left!));
+    if (!cases) return `The subproofs must assume ${or.left!.expression} and ${or.right!.expression}`;
+    if (!same(first.result, formula) || !same(second.result, formula)) return `Both subproofs must end with ${formula.expression}`;
+    return null;
+};
+
+export const checkProof = (
+    premisesText: string,
+    conclusionText: string,
+    steps: ProofStep[],
+    scopes: ProofScope[] = [],
+    options: ParseOptions = {}
+): ProofCheckResult => {
+    const premiseLines = premisesText.split('\n').map(l => l.trim()).filter(Boolean);
+    const parse = (text: string): ASTNode | string => {
+        try {
+            return parseExpression(text, options);
+        } catch (e) {
+            return e instanceof Error ? e.message : 'Invalid formula';
+        }
+    };
+
+    const premises = premiseLines.map(parse);
+    const premiseErrors = premises.map((p, i) => typeof p === 'string' ? `Premise ${i + 1}: ${p}` : null).filter((e): e is string => !!e);
+    const conclusion = conclusionText.trim() ? parse(conclusionText) : 'Enter a conclusion';
+
+    // Line n (1-based) → formula; premises come first
+    const formulas: (ASTNode | null)[] = premises.map(p => typeof p === 'string' ? null : p);
+    const offset = premiseLines.length;
+    const lineOf = (index: number) => offset + index + 1;
+
+    // Scope bookkeeping by step index: where each subproof starts, its last line so far, and which have ended
+    const chains = steps.map(step => scopeChain(step.scopeId, scopes));
+    const starts: Record<string, number> = {};
+    const ends: Record<string, number> = {};
+    const ended = new Set<string>();
+    const layout: ProofCheckResult['layout'] = [];
+
+    const checked = steps.map((step, index): ProofStep => {
+        const number = lineOf(index);
+        const chain = chains[index];
+        const previous = index > 0 ? chains[index - 1] : [];
+        previous.filter(id => !chain.includes(id)).forEach(id => ended.add(id));
+        const reentered = chain.find(id => ended.has(id));
+        const entered = chain.filter(id => !previous.includes(id) && !ended.has(id));
+        entered.forEach(id => { starts[id] = index; });
+        chain.filter(id => !ended.has(id)).forEach(id => { ends[id] = index; });
+        const opensScope = entered.length === 1 && entered[0] === chain[0];
+        layout.push({ depth: chain.length, opensScope });
+
+        const fail = (error: string): ProofStep => {
+            formulas.push(null);
+            return { ...step, isValid: false, error };
+        };
+
+        if (reentered) return fail(`This subproof already ended on line ${lineOf(ends[reentered])}`);
+        if (entered.length > 1) return fail('Open one subproof at a time');
+        if (!step.content.trim()) return fail('Empty line');
+        const formula = parse(step.content);
+        if (typeof formula === 'string') return fail(formula);
+
+        const justification = parseJustification(step.justification);
+        if (!justification) return fail(`Add a justification (${RULE_NAMES})`);
+
+        // A line stays citable while its subproof is open here
+        const cite = (n: number): ASTNode | string => {
+            if (n < 1 || n >= number) return `Line ${n} is not above this line`;
+            const scope = n > offset ? chains[n - offset - 1][0] : undefined;
+            if (scope !== undefined && !chain.includes(scope)) return `Line ${n} is inside a closed subproof`;
+            return formulas[n - 1] ?? `Line ${n} is not valid`;
+        };
+
+        // A closed subproof whose parent is open here, cited from its assumption to its last line
+        const citeSubproof = ([from, to]: [number, number]): Subproof | string => {
+            if (from <= offset || to >= number || to < from) return `${from}-${to} is not a subproof above this line`;
+            const id = chains[from - offset - 1][0];
+            if (id === undefined || starts[id] !== from - offset - 1) return `Line ${from} does not open a subproof`;
+            if (chain.includes(id)) return `The subproof from line ${from} is still open`;
+            if (ends[id] !== to - offset - 1) return `The subproof from line ${from} ends on line ${lineOf(ends[id])}`;
+            const parent = scopes.find(s => s.id === id)?.parentId;
+            if (parent !== undefined && !chain.includes(parent)) return `Line ${from} is inside a closed subproof`;
+            if (chains[to - offset - 1][0] !== id) return `Line ${to} is inside a nested subproof`;
+            const assumption = formulas[from - 1];
+            const result = formulas[to - 1];
+            if (!assumption) return `Line ${from} is not valid`;
+            if (!result) return `Line ${to} is not valid`;
+            return { assumption, result };
+        };
+
+        const { rule, lines, ranges } = justification;
+        let error: string | null = null;
+
+        if (opensScope && rule !== 'ASSUME') {
+            error = 'A subproof starts with an assumption';
+        } else if (rule === 'PREMISE') {
+            if (!premises.some(p => typeof p !== 'string' && same(p, formula))) error = 'Not one of the premises';
+        } else if (rule === 'ASSUME') {
+            if (!opensScope) error = 'An assumption opens a new subproof';
+        } else if (rule === 'CP' || rule === 'IP' || rule === 'ORE') {
+            const [lineCount, rangeCount] = rule === 'ORE' ? [1, 2] : [0, 1];
+            if (lines.length !== lineCount || ranges.length !== rangeCount) {
+                error = rule === 'ORE' ? '∨E cites a disjunction and two subproofs, e.g. "∨E 2, 3-5, 6-8"' : `${rule} cites one subproof, e.g. "${rule} 3-6"`;
+            } else {
+                const cited = lines.map(cite);
+                const subproofs = ranges.map(citeSubproof);
+                const bad = [...cited, ...subproofs].find((c): c is string => typeof c === 'string');
+                error = bad ?? discharge(justification, formula, cited as ASTNode[], subproofs as Subproof[]);
+            }
+        } else if (RULES[rule]) {
+            const cited = lines.map(cite);
+            const bad = cited.find((c): c is string => typeof c === 'string');
+            if (lines.length === 0) error = `${step.justification.trim()} must cite the lines it uses`;
+            else if (bad) error = bad;
+            else if (!RULES[rule](cited as ASTNode[], formula)) error = `Does not follow by ${LABELS[rule] ?? rule} from line${lines.length > 1 ? 's' : ''} ${lines.join(', ')}`;
+        } else {
+            error = `Unknown rule "${step.justification.trim()}". Use ${RULE_NAMES}`;
+        }
+
+        if (error) return fail(error);
+        formulas.push(formula);
+        return { ...step, isValid: true, error: undefined };
+    });
+
+    // The outermost subproof the last line is still inside
+    const open = chains.length > 0 ? chains[chains.length - 1] : [];
+    const openLine = open.length > 0 ? lineOf(starts[open[open.length - 1]]) : null;
+    const last = checked[checked.length - 1];
+    const lastFormula = formulas[formulas.length - 1];
+    const reachesConclusion = !!last?.isValid && !!lastFormula && typeof conclusion !== 'string' && same(lastFormula, conclusion);
+    const complete = premiseErrors.length === 0 && checked.every(s => s.isValid) && reachesConclusion && openLine === null;
+
+    let summary = 'Proof complete: the last line is the conclusion.';
+    if (typeof conclusion === 'string') summary = conclusion;
+    else if (premiseErrors.length > 0) summary = premiseErrors[0];
+    else if (checked.some(s => !s.isValid)) summary = `${checked.filter(s => !s.isValid).length} line(s) need fixing.`;
+    else if (openLine !== null) summary = `The subproof opened on line ${openLine} is still open; close it with CP, IP or ∨E.`;
+    else if (!reachesConclusion) summary = `All lines check. Keep going until a line reads ${conclusion.expression}.`;
+
+    return { steps: checked, premiseCount: premiseLines.length, layout, complete, summary };
+};
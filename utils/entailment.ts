@@ -0,0 +1,76 @@
+import { AppSettings, ASTNode, FormulaSetAnalysis, PremiseIndependence, TableColumn, TruthTableRow } from '../types';
+import { compareVariables, evaluateAST, extractVariablesFromExpression, formatLabel, parseExpression, parseOptionsFromSettings } from './logic';
+
+/**
+ * Formula Sets: Consistency, Entailment, Independence
+ *
+ * One truth table over the variables of every formula in the set. A row where all premises are
+ * true is a model of the set:
+ * - the set is consistent when it has a model;
+ * - Γ ⊨ φ when every model makes φ true (vacuously so for an inconsistent Γ);
+ * - a premise is independent when some row makes the other premises true and it false, i.e.
+ *   it does not follow from them.
+ */
+
+export const MAX_SET_VARIABLES = 12;
+
+// Row values are keyed by column; "#" keeps these keys apart from variable names
+const premiseKey = (i: number) => `#${i + 1}`;
+const CONCLUSION_KEY = '#C';
+
+export const analyzeFormulaSet = (premiseLines: string[], conclusionText: string, settings: AppSettings): FormulaSetAnalysis => {
+    const options = parseOptionsFromSettings(settings);
+    const parse = (text: string, name: string): ASTNode => {
+        try {
+            return parseExpression(text, options);
+        } catch (e) {
+            throw new Error(`${name}: ${e instanceof Error ? e.message : 'Invalid formula'}`);
+        }
+    };
+
+    const premises = premiseLines.map((line, i) => parse(line, `Premise ${i + 1}`));
+    const conclusion = conclusionText.trim() ? parse(conclusionText, 'Conclusion') : undefined;
+    const sources = conclusionText.trim() ? [...premiseLines, conclusionText] : premiseLines;
+    const variables = Array.from(new Set(sources.flatMap(s => extractVariablesFromExpression(s, options)))).sort(compareVariables);
+    if (variables.length > MAX_SET_VARIABLES) {
+        throw new Error(`${variables.length} variables is too many for a joint truth table (at most ${MAX_SET_VARIABLES}).`);
+    }
+
+    const columns: TableColumn[] = [
+        ...variables.map(v => ({ id: `var-${v}`, label: v, expression: v, isInput: true, isOutput: false })),
+        ...premises.map((p, i) => ({ id: `premise-${i}`, label: `P${i + 1}: ${formatLabel(p.expression, settings)}`, expression: premiseKey(i), isInput: false, isOutput: true })),
+        ...(conclusion ? [{ id: 'conclusion', label: `C: ${formatLabel(conclusion.expression, settings)}`, expression: CONCLUSION_KEY, isInput: false, isOutput: true }] : [])
+    ];
+
+    const numRows = Math.pow(2, variables.length);
+    const rows: TruthTableRow[] = [];
+    for (let i = 0; i < numRows; i++) {
+        const valIndex = settings.logic.rowOrder === '1→0' ? (numRows - 1) - i : i;
+        const context: Record<string, boolean> = {};
+        variables.forEach((v, idx) => { context[v] = ((valIndex >> (variables.length - 1 - idx)) & 1) === 1; });
+        const values: Record<string, boolean> = { ...context };
+        premises.forEach((p, j) => { values[premiseKey(j)] = evaluateAST(p, context); });
+        if (conclusion) values[CONCLUSION_KEY] = evaluateAST(conclusion, context);
+        rows.push({ id: `row-${i}`, index: i, values });
+    }
+
+    const holds = (row: TruthTableRow, except?: number) => premises.every((_, j) => j === except || row.values[premiseKey(j)]);
+    const models = rows.filter(row => holds(row));
+    const counterModel = conclusion ? models.find(row => !row.values[CONCLUSION_KEY]) : undefined;
+
+    const independence: PremiseIndependence[] = premises.map((_, i) => {
+        const witness = rows.find(row => holds(row, i) && !row.values[premiseKey(i)]);
+        return { index: i, independent: !!witness, witness };
+    });
+
+    return {
+        variables,
+        columns,
+        rows,
+        models,
+        consistent: models.length > 0,
+        entails: conclusion ? !counterModel : undefined,
+        counterModel,
+        independence
+    };
+};
@@ -1,5 +1,10 @@
 
-import { AnalysisResult, ASTNode, Classification, TableColumn, TruthTableRow, Operator, ImplicationForms, AppSettings, KMapData, KMapCell, KMapGroup, KMapGroupCell, RightAwayResult, ComplexityMetrics, SimplificationStep } from '../types';
+import { AnalysisResult, ASTNode, Classification, TableColumn, TruthTableRow, Operator, BinaryOperator, ImplicationForms, AppSettings, KMapData, KMapCell, KMapGroup, KMapGroupCell, RightAwayResult, ComplexityMetrics, SimplificationStep, ParseDiagnostic, DiagnosticCode, DiagnosticFix, PrecedenceLevel, PrecedenceProfile, PrecedenceProfileId, MinimizationResult, MinimizationForm, CanonicalForms } from '../types';
+import { OPERATOR_SYMBOLS } from './ast';
+import { minimizeSOP, minimizePOS } from './qmc';
+import { simplify } from './simplify';
+import { solveCNF, tseitinEncode } from './sat';
+import { isTermListNotation, parseTermList, formatTermList, termListVariables, canonicalSOP, canonicalPOS, TermListFunction } from './notation';
 
 // --- Constants & Types ---
 const OPS: Record<string, string> = {
@@ -8,16 +13,18 @@ const OPS: Record<string, string> = {
   '&': '∧', '&&': '∧', 'AND': '∧',
   '|': '∨', '||': '∨', 'OR': '∨',
   '!': '¬', '~': '¬', '-': '¬', 'NOT': '¬',
-  '^': '⊕', 'XOR': '⊕'
+  '^': '⊕', 'XOR': '⊕',
+  '!&': '↑', 'NAND': '↑',
+  '!|': '↓', 'NOR': '↓',
+  'XNOR': '⊙',
+  '<-': '←', '<=': '←'
 };
 
-const SYMBOLS = {
-  NOT: '¬', AND: '∧', OR: '∨', IMPLIES: '→', IFF: '↔', XOR: '⊕',
-  LPAREN: '(', RPAREN: ')', LBRACKET: '[', RBRACKET: ']', LBRACE: '{', RBRACE: '}'
-};
+// Words the tokenizer always reads as operators, so they can never name a variable
+export const isOperatorKeyword = (word: string): boolean => OPS[word.toUpperCase()] !== undefined;
 
 // --- Helper: Format Logic String based on Settings ---
-const formatLabel = (expr: string, settings: AppSettings): string => {
+export const formatLabel = (expr: string, settings: AppSettings): string => {
     if (settings.logic.negationHandling === 'preserve') return expr;
     
     // Normalize: Replace all negation symbols with ¬
@@ -38,128 +45,294 @@ const formatLabel = (expr: string, settings: AppSettings): string => {
 
 // --- Tokenizer ---
 interface Token { 
-    type: 'VAR' | Operator | 'LPAREN' | 'RPAREN' | 'LBRACKET' | 'RBRACKET' | 'LBRACE' | 'RBRACE' | 'EOF'; 
+    type: 'VAR' | Operator | 'LPAREN' | 'RPAREN' | 'LBRACKET' | 'RBRACKET' | 'LBRACE' | 'RBRACE' | 'UNKNOWN' | 'EOF'; 
     value: string; 
+    // Offsets into the original input, end exclusive
+    start: number;
+    end: number;
+}
+
+export interface ParseOptions {
+    // Keep identifiers as typed instead of upper-casing them (p and P become distinct)
+    caseSensitive?: boolean;
+    precedence?: PrecedenceProfileId;
 }
 
-const tokenize = (input: string): Token[] => {
+const SYMBOL_TYPES: Record<string, Token['type']> = {
+  '¬': 'NOT', '∧': 'AND', '∨': 'OR', '→': 'IMPLIES', '↔': 'IFF', '⊕': 'XOR',
+  '↑': 'NAND', '↓': 'NOR', '⊙': 'XNOR', '←': 'CONVERSE',
+  '(': 'LPAREN', ')': 'RPAREN', '[': 'LBRACKET', ']': 'RBRACKET', '{': 'LBRACE', '}': 'RBRACE'
+};
+
+// Punctuation spellings only; word operators are recognised as whole identifiers.
+// Longest first so '<->' wins over '->' and '&&' over '&'.
+const ASCII_OPS = Object.keys(OPS).filter(k => !/^[A-Z]+$/.test(k)).sort((a, b) => b.length - a.length);
+
+// A letter followed by letters, digits, underscores or subscript digits: P, P12, Q_2, P₁, Rain
+const IDENTIFIER = /[A-Za-z][A-Za-z0-9_₀-₉]*/y;
+
+export const parseOptionsFromSettings = (settings?: AppSettings): ParseOptions => ({
+    caseSensitive: !!settings?.logic.caseSensitiveVariables,
+    precedence: settings?.logic.precedenceProfile
+});
+
+// Natural order so P2 sorts before P10
+export const compareVariables = (a: string, b: string): number => 
+    a.localeCompare(b, 'en', { numeric: true, caseFirst: 'upper' });
+
+const tokenize = (input: string, options: ParseOptions = {}): Token[] => {
   const tokens: Token[] = [];
+  const str = input || '';
   let i = 0;
-  // Remove whitespace
-  const str = (input || '').toUpperCase().replace(/\s+/g, '');
 
   while (i < str.length) {
     const char = str[i];
-    
-    const remainder = str.slice(i);
-    let matchedOp = false;
-    
-    const opKeys = Object.keys(OPS).sort((a, b) => b.length - a.length);
-    
-    for (const key of opKeys) {
-      if (remainder.startsWith(key)) {
-        let type: any = 'VAR';
-        const symbol = OPS[key];
-        if (symbol === '¬') type = 'NOT';
-        else if (symbol === '∧') type = 'AND';
-        else if (symbol === '∨') type = 'OR';
-        else if (symbol === '→') type = 'IMPLIES';
-        else if (symbol === '↔') type = 'IFF';
-        else if (symbol === '⊕') type = 'XOR';
-        
-        tokens.push({ type, value: symbol }); 
-        i += key.length;
-        matchedOp = true;
-        break;
-      }
-    }
-    if (matchedOp) continue;
-
-    if (Object.values(SYMBOLS).includes(char) || ['[',']','{','}','(',')'].includes(char)) {
-       let type: any = 'VAR';
-       if (char === '¬') type = 'NOT';
-       else if (char === '∧') type = 'AND';
-       else if (char === '∨') type = 'OR';
-       else if (char === '→') type = 'IMPLIES';
-       else if (char === '↔') type = 'IFF';
-       else if (char === '⊕') type = 'XOR';
-       else if (char === '(') type = 'LPAREN';
-       else if (char === ')') type = 'RPAREN';
-       else if (char === '[') type = 'LBRACKET';
-       else if (char === ']') type = 'RBRACKET';
-       else if (char === '{') type = 'LBRACE';
-       else if (char === '}') type = 'RBRACE';
-       tokens.push({ type, value: char });
-       i++;
-    } else if (/[A-Z]/.test(char) || char === '1' || char === '0') {
-      tokens.push({ type: 'VAR', value: char });
+
+    if (/\s/.test(char)) {
       i++;
-    } else if (char === '-') { 
-      tokens.push({ type: 'NOT', value: '-' });
+      continue;
+    }
+
+    const asciiOp = ASCII_OPS.find(key => str.startsWith(key, i));
+    if (asciiOp) {
+      const symbol = OPS[asciiOp];
+      tokens.push({ type: SYMBOL_TYPES[symbol], value: symbol, start: i, end: i + asciiOp.length });
+      i += asciiOp.length;
+      continue;
+    }
+
+    if (SYMBOL_TYPES[char]) {
+      tokens.push({ type: SYMBOL_TYPES[char], value: char, start: i, end: i + 1 });
       i++;
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = i;
+    const match = IDENTIFIER.exec(str);
+    if (match) {
+      const word = match[0];
+      const keyword = OPS[word.toUpperCase()];
+      if (keyword) {
+        tokens.push({ type: SYMBOL_TYPES[keyword], value: keyword, start: i, end: i + word.length });
+      } else {
+        tokens.push({ type: 'VAR', value: options.caseSensitive ? word : word.toUpperCase(), start: i, end: i + word.length });
+      }
+      i += word.length;
+      continue;
+    }
+
+    if (char === '1' || char === '0') {
+      tokens.push({ type: 'VAR', value: char, start: i, end: i + 1 });
     } else {
-      i++;
+      tokens.push({ type: 'UNKNOWN', value: char, start: i, end: i + 1 });
     }
+    i++;
   }
-  tokens.push({ type: 'EOF', value: '' });
+  tokens.push({ type: 'EOF', value: '', start: str.length, end: str.length });
   return tokens;
 };
 
+// --- Precedence Profiles ---
+// Levels run loosest-binding first; ¬ always binds tightest.
+// 'none' associativity rejects unparenthesized chains, except for operators listed as chainable.
+
+const ALL_BINARY: BinaryOperator[] = ['IFF', 'XNOR', 'IMPLIES', 'CONVERSE', 'XOR', 'OR', 'NOR', 'AND', 'NAND'];
+
+export const PRECEDENCE_PROFILES: PrecedenceProfile[] = [
+    {
+        id: 'textbook',
+        label: 'Textbook (right-assoc →)',
+        description: '¬ > ∧ > ∨ ⊕ > → > ↔. Chains of → group to the right.',
+        levels: [
+            { operators: ['IFF', 'XNOR'], assoc: 'left' },
+            { operators: ['IMPLIES', 'CONVERSE'], assoc: 'right' },
+            { operators: ['OR', 'NOR', 'XOR'], assoc: 'left' },
+            { operators: ['AND', 'NAND'], assoc: 'left' }
+        ]
+    },
+    {
+        id: 'rosen',
+        label: 'Rosen',
+        description: '¬ > ∧ > ∨ > → > ↔ as in Rosen\'s table. Chained → or ↔ must be parenthesized.',
+        levels: [
+            { operators: ['IFF', 'XNOR'], assoc: 'none' },
+            { operators: ['IMPLIES', 'CONVERSE'], assoc: 'none' },
+            { operators: ['OR', 'NOR', 'XOR'], assoc: 'left' },
+            { operators: ['AND', 'NAND'], assoc: 'left' }
+        ]
+    },
+    {
+        id: 'strict',
+        label: 'Strict (require parentheses)',
+        description: 'No precedence between binary operators. Only chains of the same ∧ or ∨ may omit parentheses.',
+        levels: [
+            { operators: ALL_BINARY, assoc: 'none', chainable: ['AND', 'OR'] }
+        ]
+    },
+    {
+        id: 'programming',
+        label: 'Programming (C-like)',
+        description: '¬ > ↔ (as ==) > ∧ (&) > ⊕ (^) > ∨ (|) > →.',
+        levels: [
+            { operators: ['IMPLIES', 'CONVERSE'], assoc: 'right' },
+            { operators: ['OR', 'NOR'], assoc: 'left' },
+            { operators: ['XOR', 'XNOR'], assoc: 'left' },
+            { operators: ['AND', 'NAND'], assoc: 'left' },
+            { operators: ['IFF'], assoc: 'left' }
+        ]
+    },
+    {
+        id: 'classic',
+        label: 'LogicFlow Classic',
+        description: 'Pre-V7 behaviour: ¬ > ∧ > ∨ > ⊕ > → > ↔, everything left-associative.',
+        levels: [
+            { operators: ['IFF'], assoc: 'left' },
+            { operators: ['IMPLIES', 'CONVERSE'], assoc: 'left' },
+            { operators: ['XOR', 'XNOR'], assoc: 'left' },
+            { operators: ['OR', 'NOR'], assoc: 'left' },
+            { operators: ['AND', 'NAND'], assoc: 'left' }
+        ]
+    }
+];
+
+export const getPrecedenceProfile = (id?: PrecedenceProfileId): PrecedenceProfile =>
+    PRECEDENCE_PROFILES.find(p => p.id === id) || PRECEDENCE_PROFILES[0];
+
 // --- Layer 1: Syntax Validation ---
-const validateSyntax = (tokens: Token[]): string | null => {
-    if (tokens.length === 0 || (tokens.length === 1 && tokens[0].type === 'EOF')) return "Empty expression";
-
-    // Stack for bracket validation
-    const stack: string[] = [];
-    const bracketMap: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
-    const openBrackets = ['(', '[', '{'];
-    const closeBrackets = [')', ']', '}'];
-
-    for (let i = 0; i < tokens.length - 1; i++) {
-        const curr = tokens[i];
-        const next = tokens[i+1];
-        
-        // Bracket Matching Check
-        if (['LPAREN', 'LBRACKET', 'LBRACE'].includes(curr.type)) {
-            stack.push(curr.value);
-        } else if (['RPAREN', 'RBRACKET', 'RBRACE'].includes(curr.type)) {
-            const last = stack.pop();
-            if (last !== bracketMap[curr.value]) {
-                return `Grouping mismatch: Unexpected '${curr.value}'.`;
-            }
-        }
+export class ParseError extends Error {
+    diagnostics: ParseDiagnostic[];
 
-        // Check 1: Adjacent Binary Operators (e.g., AND AND)
-        const isBinOp = (t: Token) => ['AND', 'OR', 'IMPLIES', 'IFF', 'XOR'].includes(t.type);
-        if (isBinOp(curr) && isBinOp(next)) {
-            return `Mathematical syntax error: Adjacent operators '${curr.value}' and '${next.value}'. Expected a variable or negation.`;
-        }
+    constructor(diagnostics: ParseDiagnostic[]) {
+        super(diagnostics[0]?.message || 'Invalid expression');
+        this.name = 'ParseError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+const BINARY_TYPES: Token['type'][] = ['AND', 'OR', 'IMPLIES', 'IFF', 'XOR', 'NAND', 'NOR', 'XNOR', 'CONVERSE'];
+const OPEN_TYPES: Token['type'][] = ['LPAREN', 'LBRACKET', 'LBRACE'];
+const CLOSE_TYPES: Token['type'][] = ['RPAREN', 'RBRACKET', 'RBRACE'];
+const CLOSER_FOR: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Walks the token stream once, tracking whether an operand or an operator is
+ * expected next, and reports every problem it finds with its source span.
+ * Errors block analysis; warnings (stray characters) are reported and skipped.
+ */
+const validateSyntax = (tokens: Token[], input: string): ParseDiagnostic[] => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const source = (t: Token) => input.slice(t.start, t.end);
+    const report = (code: DiagnosticCode, message: string, start: number, end: number, fixes: DiagnosticFix[] = [], severity: ParseDiagnostic['severity'] = 'error') => {
+        diagnostics.push({ code, severity, message, start, end, fixes });
+    };
+
+    tokens.filter(t => t.type === 'UNKNOWN').forEach(t => {
+        report('unknown-character', `Unrecognised character '${t.value}' is ignored.`, t.start, t.end,
+            [{ label: `Remove '${t.value}'`, start: t.start, end: t.end, replacement: '' }], 'warning');
+    });
+
+    const significant = tokens.filter(t => t.type !== 'UNKNOWN' && t.type !== 'EOF');
+    if (significant.length === 0) {
+        report('empty-expression', "Empty expression", 0, input.length);
+        return diagnostics;
+    }
+
+    const stack: Token[] = [];
+    let expectOperand = true;
+    let prev: Token | undefined;
 
-        // Check 2: Variable immediately following Variable (e.g., P Q)
-        const isVar = (t: Token) => t.type === 'VAR' || t.value === '1' || t.value === '0';
-        if (isVar(curr) && isVar(next)) {
-            return `Missing operator between '${curr.value}' and '${next.value}'. Did you mean '${curr.value} ∧ ${next.value}'?`;
+    const closeGroup = (close: Token) => {
+        const open = stack.pop();
+        if (!open) {
+            report('unexpected-close', `Grouping mismatch: Unexpected '${close.value}'.`, close.start, close.end,
+                [{ label: `Remove '${close.value}'`, start: close.start, end: close.end, replacement: '' }]);
+        } else if (CLOSER_FOR[open.value] !== close.value) {
+            report('unexpected-close', `Grouping mismatch: '${open.value}' is closed by '${close.value}'.`, close.start, close.end,
+                [{ label: `Use '${CLOSER_FOR[open.value]}'`, start: close.start, end: close.end, replacement: CLOSER_FOR[open.value] }]);
         }
-        
-        // Check 3: Empty groups ()
-        const isOpen = (t: Token) => ['LPAREN', 'LBRACKET', 'LBRACE'].includes(t.type);
-        const isClose = (t: Token) => ['RPAREN', 'RBRACKET', 'RBRACE'].includes(t.type);
-        if (isOpen(curr) && isClose(next)) {
-            return "Empty brackets found. Logic requires a value inside.";
+    };
+
+    for (const curr of significant) {
+        if (expectOperand) {
+            if (curr.type === 'VAR') {
+                expectOperand = false;
+            } else if (OPEN_TYPES.includes(curr.type)) {
+                stack.push(curr);
+            } else if (CLOSE_TYPES.includes(curr.type)) {
+                if (prev && OPEN_TYPES.includes(prev.type)) {
+                    report('empty-group', "Empty brackets found. Logic requires a value inside.", prev.start, curr.end);
+                } else if (prev) {
+                    report('missing-operand', `'${source(prev)}' requires a following value before '${source(curr)}'.`, prev.start, curr.end,
+                        [{ label: `Remove '${source(prev)}'`, start: prev.start, end: prev.end, replacement: '' }]);
+                }
+                closeGroup(curr);
+                // A stray closer at the very start leaves us still waiting for the first value
+                expectOperand = !prev;
+            } else if (BINARY_TYPES.includes(curr.type)) {
+                if (prev && BINARY_TYPES.includes(prev.type)) {
+                    report('adjacent-operators', `Mathematical syntax error: Adjacent operators '${source(prev)}' and '${source(curr)}'. Expected a variable or negation.`, prev.start, curr.end,
+                        [{ label: `Remove '${source(curr)}'`, start: curr.start, end: curr.end, replacement: '' }]);
+                } else {
+                    report('missing-operand', `'${source(curr)}' is missing its left-hand value.`, curr.start, curr.end,
+                        [{ label: `Remove '${source(curr)}'`, start: curr.start, end: curr.end, replacement: '' }]);
+                }
+            }
+            // NOT keeps expecting an operand
+        } else {
+            if (BINARY_TYPES.includes(curr.type)) {
+                expectOperand = true;
+            } else if (CLOSE_TYPES.includes(curr.type)) {
+                closeGroup(curr);
+            } else {
+                // An operand (or ¬, or an opening bracket) directly after an operand
+                const gap = { start: prev!.end, end: curr.start };
+                report('missing-operator', `Missing operator between '${source(prev!)}' and '${source(curr)}'. Did you mean '${source(prev!)} ∧ ${source(curr)}'?`, prev!.start, curr.end, [
+                    { label: 'Insert ∧', ...gap, replacement: ' ∧ ' },
+                    { label: 'Insert ∨', ...gap, replacement: ' ∨ ' }
+                ]);
+                if (OPEN_TYPES.includes(curr.type)) stack.push(curr);
+                expectOperand = curr.type !== 'VAR';
+            }
         }
-    }
-    
-    if (stack.length > 0) {
-        return `Missing closing bracket for '${stack.pop()}'.`;
+        prev = curr;
     }
 
-    // Check 5: Operator at end
-    const last = tokens[tokens.length - 2]; // last real token before EOF
-    if (last && ['AND', 'OR', 'IMPLIES', 'IFF', 'XOR', 'NOT'].includes(last.type)) {
-        return `Expression ends incomplete. '${last.value}' requires a following value.`;
+    if (expectOperand && prev && !OPEN_TYPES.includes(prev.type)) {
+        report('missing-operand', `Expression ends incomplete. '${source(prev)}' requires a following value.`, prev.start, prev.end,
+            [{ label: `Remove '${source(prev)}'`, start: prev.start, end: prev.end, replacement: '' }]);
     }
 
-    return null;
+    // Innermost first, so applying the fixes in order yields properly nested closers
+    stack.reverse().forEach(open => {
+        report('unclosed-group', `Missing closing bracket for '${open.value}'.`, open.start, open.end,
+            [{ label: `Close with '${CLOSER_FOR[open.value]}'`, start: input.length, end: input.length, replacement: CLOSER_FOR[open.value] }]);
+    });
+
+    return diagnostics.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Validates then parses under the chosen precedence profile.
+ * Throws a ParseError carrying positioned diagnostics on failure.
+ */
+export const parseExpression = (expression: string, options: ParseOptions = {}): ASTNode => {
+    const tokens = tokenize(expression, options);
+    const errors = validateSyntax(tokens, expression).filter(d => d.severity === 'error');
+    if (errors.length > 0) throw new ParseError(errors);
+    return new Parser(tokens, getPrecedenceProfile(options.precedence), expression).parse();
+};
+
+export const diagnoseExpression = (expression: string, options: ParseOptions = {}): ParseDiagnostic[] => {
+    const diagnostics = validateSyntax(tokenize(expression, options), expression);
+    if (diagnostics.some(d => d.severity === 'error')) return diagnostics;
+    // Grouping problems only surface once the profile's grammar runs
+    try {
+        parseExpression(expression, options);
+        return diagnostics;
+    } catch (e) {
+        if (e instanceof ParseError) return [...diagnostics, ...e.diagnostics].sort((a, b) => a.start - b.start);
+        throw e;
+    }
 };
 
 // --- Layer 2: Parser (Recursive Descent) ---
@@ -167,89 +340,82 @@ class Parser {
   tokens: Token[];
   pos: number = 0;
   nodeIdCounter: number = 0;
+  profile: PrecedenceProfile;
+  input: string;
 
-  constructor(tokens: Token[]) { this.tokens = tokens; }
-  peek() { return this.tokens[this.pos] || { type: 'EOF', value: '' }; }
-  consume() { return this.tokens[this.pos++] || { type: 'EOF', value: '' }; }
+  // Stray characters were already reported as warnings, the grammar never sees them
+  constructor(tokens: Token[], profile: PrecedenceProfile = PRECEDENCE_PROFILES[0], input: string = '') {
+    this.tokens = tokens.filter(t => t.type !== 'UNKNOWN');
+    this.profile = profile;
+    this.input = input;
+  }
+  peek() { return this.tokens[this.pos] || this.tokens[this.tokens.length - 1]; }
+  consume() { return this.tokens[this.pos++] || this.tokens[this.tokens.length - 1]; }
   generateId() { return `node-${this.nodeIdCounter++}`; }
 
+  fail(token: Token, code: DiagnosticCode, message: string, fixes: DiagnosticFix[] = []): never {
+    throw new ParseError([{ code, severity: 'error', message, start: token.start, end: token.end, fixes }]);
+  }
+
   parse(): ASTNode {
-    const node = this.parseIFF();
+    const node = this.parseLevel(0);
     const next = this.peek();
-    if (next.type !== 'EOF' && !['RPAREN','RBRACKET','RBRACE'].includes(next.type)) {
-       // Should be caught by validateSyntax, but safe fallback
+    if (next.type !== 'EOF') {
+       // Should be caught by validateSyntax, but never silently drop the rest of the input
+       this.fail(next, 'unexpected-token', `Unexpected '${next.value}' after a complete expression.`);
     }
     return node;
   }
 
-  parseIFF(): ASTNode {
-    let left = this.parseImplies();
-    while (this.peek().type === 'IFF') {
-      this.consume();
-      const right = this.parseImplies();
-      left = {
-        id: this.generateId(), type: 'IFF', left, right,
-        expression: `${left.expression} ↔ ${right.expression}`,
-        depth: Math.max(left.depth, right.depth) + 1
-      };
-    }
-    return left;
+  binary(type: BinaryOperator, left: ASTNode, right: ASTNode): ASTNode {
+    return {
+      id: this.generateId(), type, left, right,
+      expression: `${left.expression} ${OPERATOR_SYMBOLS[type]} ${right.expression}`,
+      depth: Math.max(left.depth, right.depth) + 1
+    };
   }
 
-  parseImplies(): ASTNode {
-    let left = this.parseXor();
-    while (this.peek().type === 'IMPLIES') {
-      this.consume();
-      const right = this.parseXor();
-      left = {
-        id: this.generateId(), type: 'IMPLIES', left, right,
-        expression: `${left.expression} → ${right.expression}`,
-        depth: Math.max(left.depth, right.depth) + 1
-      };
-    }
-    return left;
+  peekOperator(level: PrecedenceLevel): BinaryOperator | null {
+    const type = this.peek().type as BinaryOperator;
+    return level.operators.includes(type) ? type : null;
   }
 
-  parseXor(): ASTNode {
-    let left = this.parseOr();
-    while (this.peek().type === 'XOR') {
+  parseLevel(index: number): ASTNode {
+    const level = this.profile.levels[index];
+    if (!level) return this.parseNot();
+
+    const startToken = this.peek();
+    let left = this.parseLevel(index + 1);
+
+    if (level.assoc === 'right') {
+      const type = this.peekOperator(level);
+      if (!type) return left;
       this.consume();
-      const right = this.parseOr();
-      left = {
-        id: this.generateId(), type: 'XOR', left, right,
-        expression: `${left.expression} ⊕ ${right.expression}`,
-        depth: Math.max(left.depth, right.depth) + 1
-      };
+      // Recursing at the same level makes P → Q → R read as P → (Q → R)
+      return this.binary(type, left, this.parseLevel(index));
     }
-    return left;
-  }
 
-  parseOr(): ASTNode {
-    let left = this.parseAnd();
-    while (this.peek().type === 'OR') {
-      this.consume();
-      const right = this.parseAnd();
-      left = {
-        id: this.generateId(), type: 'OR', left, right,
-        expression: `${left.expression} ∨ ${right.expression}`,
-        depth: Math.max(left.depth, right.depth) + 1
-      };
+    let previous: BinaryOperator | null = null;
+    let type: BinaryOperator | null;
+    while ((type = this.peekOperator(level))) {
+      const opToken = this.consume();
+      if (level.assoc === 'none' && previous && !(type === previous && level.chainable?.includes(type))) {
+        this.failAmbiguous(opToken, startToken);
+      }
+      left = this.binary(type, left, this.parseLevel(index + 1));
+      previous = type;
     }
     return left;
   }
 
-  parseAnd(): ASTNode {
-    let left = this.parseNot();
-    while (this.peek().type === 'AND') {
-      this.consume();
-      const right = this.parseNot();
-      left = {
-        id: this.generateId(), type: 'AND', left, right,
-        expression: `${left.expression} ∧ ${right.expression}`,
-        depth: Math.max(left.depth, right.depth) + 1
-      };
-    }
-    return left;
+  failAmbiguous(opToken: Token, startToken: Token): never {
+    const prevEnd = this.tokens[this.pos - 2]?.end ?? opToken.start;
+    const grouped = this.input.slice(startToken.start, prevEnd);
+    const fixes: DiagnosticFix[] = this.input
+      ? [{ label: `Group as (${grouped.trim()})`, start: startToken.start, end: prevEnd, replacement: `(${grouped.trim()})` }]
+      : [];
+    return this.fail(opToken, 'ambiguous-grouping',
+      `'${opToken.value}' needs parentheses to show how this chain groups (${this.profile.label}).`, fixes);
   }
 
   parseNot(): ASTNode {
@@ -270,7 +436,7 @@ class Parser {
     if (['LPAREN', 'LBRACKET', 'LBRACE'].includes(token.type)) {
       const open = token.type;
       this.consume();
-      const node = this.parseIFF();
+      const node = this.parseLevel(0);
       const close = this.peek();
       
       const expectedClose = open === 'LPAREN' ? 'RPAREN' : open === 'LBRACKET' ? 'RBRACKET' : 'RBRACE';
@@ -282,6 +448,7 @@ class Parser {
           node.expression = `${openChar}${node.expression}${closeChar}`;
           return node;
       }
+      this.fail(close, 'unclosed-group', `Missing closing bracket for '${openChar}'.`);
     } else if (token.type === 'VAR') {
       this.consume();
       return {
@@ -290,36 +457,102 @@ class Parser {
         depth: 0
       };
     }
-    // Fallback
-    this.consume(); 
-    return {
-        id: this.generateId(), type: 'VAR', value: '?', expression: '?', depth: 0
-    };
+    return this.fail(token, 'unexpected-token', token.type === 'EOF' ? 'Expected a value at the end of the expression.' : `Expected a value but found '${token.value}'.`);
   }
 }
 
-// --- Evaluator ---
-const evaluateAST = (node: ASTNode, context: Record<string, boolean>): boolean => {
-  if (node.type === 'VAR') {
-    if (node.value === '1') return true;
-    if (node.value === '0') return false;
-    return context[node.value!] ?? false;
-  }
-  if (node.type === 'NOT') return !evaluateAST(node.operand!, context);
-  
-  const l = evaluateAST(node.left!, context);
-  const r = evaluateAST(node.right!, context);
+// Every binary operation wrapped in its own parentheses, outermost pair dropped: shows how the profile grouped the input
+export const fullyParenthesize = (node: ASTNode, isRoot = true): string => {
+    if (node.type === 'VAR') return node.value!;
+    if (node.type === 'NOT') return `¬${fullyParenthesize(node.operand!, false)}`;
+    const inner = `${fullyParenthesize(node.left!, false)} ${OPERATOR_SYMBOLS[node.type]} ${fullyParenthesize(node.right!, false)}`;
+    return isRoot ? inner : `(${inner})`;
+};
 
-  switch (node.type) {
+// --- Evaluator ---
+const applyOperator = (type: BinaryOperator, l: boolean, r: boolean): boolean => {
+  switch (type) {
     case 'AND': return l && r;
     case 'OR': return l || r;
     case 'XOR': return l !== r;
     case 'IMPLIES': return !l || r;
     case 'IFF': return l === r;
+    case 'NAND': return !(l && r);
+    case 'NOR': return !(l || r);
+    case 'XNOR': return l === r;
+    case 'CONVERSE': return l || !r;
     default: return false;
   }
 };
 
+export const evaluateAST = (node: ASTNode, context: Record<string, boolean>): boolean => {
+  if (node.type === 'VAR') {
+    if (node.value === '1') return true;
+    if (node.value === '0') return false;
+    return context[node.value!] ?? false;
+  }
+  if (node.type === 'NOT') return !evaluateAST(node.operand!, context);
+  return applyOperator(node.type, evaluateAST(node.left!, context), evaluateAST(node.right!, context));
+};
+
+// --- Compiled Evaluator ---
+// The tree flattened into post-order slots: each node is evaluated once per row, children first,
+// with variables read by position instead of by name
+type Instruction =
+  | { kind: 'input'; index: number }
+  | { kind: 'constant'; value: boolean }
+  | { kind: 'not'; a: number }
+  | { kind: 'binary'; type: BinaryOperator; a: number; b: number };
+
+export interface CompiledFormula {
+  slotOf: Record<string, number>;          // node id → slot
+  run: (inputs: boolean[]) => boolean[];   // slot values for one row; the array is reused between calls
+}
+
+export const compileAST = (ast: ASTNode, variables: string[]): CompiledFormula => {
+  const program: Instruction[] = [];
+  const slotOf: Record<string, number> = {};
+  const visit = (n: ASTNode): number => {
+    if (slotOf[n.id] !== undefined) return slotOf[n.id];
+    let instruction: Instruction;
+    if (n.type === 'VAR') {
+      instruction = n.value === '1' || n.value === '0' ? { kind: 'constant', value: n.value === '1' } : { kind: 'input', index: variables.indexOf(n.value!) };
+    } else if (n.type === 'NOT') {
+      instruction = { kind: 'not', a: visit(n.operand!) };
+    } else {
+      instruction = { kind: 'binary', type: n.type, a: visit(n.left!), b: visit(n.right!) };
+    }
+    slotOf[n.id] = program.length;
+    program.push(instruction);
+    return slotOf[n.id];
+  };
+  visit(ast);
+
+  const slots: boolean[] = new Array(program.length).fill(false);
+  const run = (inputs: boolean[]) => {
+    for (let i = 0; i < program.length; i++) {
+      const ins = program[i];
+      switch (ins.kind) {
+        case 'input': slots[i] = ins.index >= 0 && inputs[ins.index]; break;
+        case 'constant': slots[i] = ins.value; break;
+        case 'not': slots[i] = !slots[ins.a]; break;
+        case 'binary': slots[i] = applyOperator(ins.type, slots[ins.a], slots[ins.b]); break;
+      }
+    }
+    return slots;
+  };
+  return { slotOf, run };
+};
+
+// Inputs of the i-th table row: the first variable is the most significant bit, and '1→0' counts down
+export const rowIndexValue = (i: number, variableCount: number, rowOrder: AppSettings['logic']['rowOrder']): number =>
+  rowOrder === '1→0' ? (Math.pow(2, variableCount) - 1) - i : i;
+
+export const rowInputs = (valIndex: number, variableCount: number, into: boolean[] = new Array(variableCount)): boolean[] => {
+  for (let idx = 0; idx < variableCount; idx++) into[idx] = ((valIndex >> (variableCount - 1 - idx)) & 1) === 1;
+  return into;
+};
+
 const extractSubExpressions = (node: ASTNode, list: ASTNode[] = []) => {
   if (node.left) extractSubExpressions(node.left, list);
   if (node.right) extractSubExpressions(node.right, list);
@@ -363,13 +596,47 @@ export const recalculateRow = (
 };
 
 // --- K-Map Logic ---
+
+// Minterm index of a row: declared variables read as binary, first variable most significant
+const rowMinterm = (row: TruthTableRow, variables: string[]): number => {
+    let minterm = 0;
+    variables.forEach((v, i) => { if (row.values[v]) minterm |= (1 << (variables.length - 1 - i)); });
+    return minterm;
+};
+
+// Rows are keyed by expression, so a bare-variable formula shares its output with the input column
+const rowResult = (row: TruthTableRow, output: string): boolean => row.values[output];
+
+// Don't-care rows may join either form's groups but never have to be covered
+const minimizeRows = (variables: string[], rows: TruthTableRow[], output: string, form: MinimizationForm = 'SOP'): MinimizationResult => {
+    const cared = rows.filter(r => !r.dontCare);
+    const dontCares = rows.filter(r => r.dontCare).map(r => rowMinterm(r, variables));
+    return form === 'SOP'
+        ? minimizeSOP(variables, cared.filter(r => rowResult(r, output)).map(r => rowMinterm(r, variables)), dontCares)
+        : minimizePOS(variables, cared.filter(r => !rowResult(r, output)).map(r => rowMinterm(r, variables)), dontCares);
+};
+
+const canonicalForms = (variables: string[], rows: TruthTableRow[], output: string): CanonicalForms => {
+    const sorted = [...rows].sort((a, b) => rowMinterm(a, variables) - rowMinterm(b, variables));
+    const indices = (keep: (row: TruthTableRow) => boolean) => sorted.filter(keep).map(r => rowMinterm(r, variables));
+    const minterms = indices(r => !r.dontCare && rowResult(r, output));
+    const maxterms = indices(r => !r.dontCare && !rowResult(r, output));
+    return {
+        minterms,
+        maxterms,
+        dontCares: indices(r => !!r.dontCare),
+        dnf: canonicalSOP(variables, minterms),
+        cnf: canonicalPOS(variables, maxterms)
+    };
+};
+
 const getGrayCode = (n: number): string[] => {
     if (n === 1) return ['0', '1'];
     if (n === 2) return ['00', '01', '11', '10'];
     return [];
 };
 
-const generateKMap = (variables: string[], rows: TruthTableRow[]): KMapData | undefined => {
+const generateKMap = (variables: string[], rows: TruthTableRow[], output: string, minimization: MinimizationResult): KMapData | undefined => {
     const numVars = variables.length;
     if (numVars < 2 || numVars > 4) return undefined;
     let rowVars: string[] = [];
@@ -380,14 +647,13 @@ const generateKMap = (variables: string[], rows: TruthTableRow[]): KMapData | un
     const rowGray = getGrayCode(rowVars.length);
     const colGray = getGrayCode(colVars.length);
     const grid: KMapCell[][] = [];
-    const onMinterms = new Set<number>();
     const mintermMap = new Map<number, boolean>();
+    const dontCares = new Set<number>();
     rows.forEach(row => {
-        let minterm = 0;
-        variables.forEach((v, i) => { if (row.values[v]) minterm |= (1 << (variables.length - 1 - i)); });
-        const resultVal = Object.values(row.values)[Object.values(row.values).length - 1]; 
+        const minterm = rowMinterm(row, variables);
+        const resultVal = rowResult(row, output);
         mintermMap.set(minterm, resultVal);
-        if (resultVal) onMinterms.add(minterm);
+        if (row.dontCare) dontCares.add(minterm);
     });
     for (let r = 0; r < rowGray.length; r++) {
         const rowData: KMapCell[] = [];
@@ -395,86 +661,73 @@ const generateKMap = (variables: string[], rows: TruthTableRow[]): KMapData | un
             const bits = rowGray[r] + colGray[c];
             const mintermIndex = parseInt(bits, 2);
             const value = mintermMap.get(mintermIndex) || false;
-            rowData.push({ value, mintermIndex });
+            rowData.push({ value, mintermIndex, dontCare: dontCares.has(mintermIndex) });
         }
         grid.push(rowData);
     }
-    const { groups, minimizedExpression } = solveKMap(grid, onMinterms, rowVars, colVars, rowGray, colGray);
-    return { variables, grid, rowLabels: rowGray, colLabels: colGray, groups, minimizedExpression: minimizedExpression || (onMinterms.size === 0 ? '0' : '1') };
-};
-
-const solveKMap = (grid: KMapCell[][], onMinterms: Set<number>, rowVars: string[], colVars: string[], rowGray: string[], colGray: string[]) => {
-    const rows = grid.length;
-    const cols = grid[0].length;
-    const groups: KMapGroup[] = [];
-    const coveredMinterms = new Set<number>();
-    const colors = ['bg-red-500/20 border-red-500', 'bg-blue-500/20 border-blue-500', 'bg-green-500/20 border-green-500', 'bg-yellow-500/20 border-yellow-500', 'bg-purple-500/20 border-purple-500', 'bg-orange-500/20 border-orange-500'];
-    const sizes = [];
-    for (let h of [4, 2, 1]) { for (let w of [4, 2, 1]) { if (h <= rows && w <= cols && Number.isInteger(Math.log2(h * w))) sizes.push({h, w, area: h*w}); } }
-    sizes.sort((a, b) => b.area - a.area);
-    for (const size of sizes) {
-        for (let r = 0; r < rows; r++) {
-            for (let c = 0; c < cols; c++) {
-                let allOnes = true;
-                const cells: KMapGroupCell[] = [];
-                const currentMinterms = new Set<number>();
-                for (let i = 0; i < size.h; i++) {
-                    for (let j = 0; j < size.w; j++) {
-                        const rr = (r + i) % rows;
-                        const cc = (c + j) % cols;
-                        if (!grid[rr][cc].value) { allOnes = false; break; }
-                        cells.push({r: rr, c: cc});
-                        currentMinterms.add(grid[rr][cc].mintermIndex);
-                    }
-                    if (!allOnes) break;
-                }
-                if (allOnes) {
-                    let coversNew = false;
-                    currentMinterms.forEach(m => { if (!coveredMinterms.has(m)) coversNew = true; });
-                    if (coversNew) {
-                        const term = generateTerm(currentMinterms, rowVars, colVars, rowGray.length, colGray.length);
-                        groups.push({ cells, color: colors[groups.length % colors.length], term });
-                        currentMinterms.forEach(m => coveredMinterms.add(m));
-                    }
-                }
-            }
-        }
-    }
-    return { groups, minimizedExpression: groups.map(g => g.term).join(' ∨ ') };
-};
-
-const generateTerm = (minterms: Set<number>, rowVars: string[], colVars: string[], numRows: number, numCols: number) => {
-    const allVars = [...rowVars, ...colVars];
-    const totalBits = allVars.length;
-    let term = '';
-    for (let i = 0; i < totalBits; i++) {
-        let bitVal: number | null = null;
-        let isConstant = true;
-        for (const m of Array.from(minterms)) {
-            const bit = (m >> (totalBits - 1 - i)) & 1;
-            if (bitVal === null) bitVal = bit; else if (bitVal !== bit) { isConstant = false; break; }
-        }
-        if (isConstant && bitVal !== null) term += bitVal === 1 ? allVars[i] : `¬${allVars[i]}`;
+    const posMinimization = minimizeRows(variables, rows, output, 'POS');
+    return {
+        variables,
+        grid,
+        rowLabels: rowGray,
+        colLabels: colGray,
+        sopGroups: solveKMap(grid, minimization, SOP_COLORS),
+        posGroups: solveKMap(grid, posMinimization, POS_COLORS),
+        minimizedSOP: minimization.expression,
+        minimizedPOS: posMinimization.expression,
+        exactSOP: minimization.exact,
+        exactPOS: posMinimization.exact
+    };
+};
+
+const SOP_COLORS = ['bg-red-500/20 border-red-500', 'bg-blue-500/20 border-blue-500', 'bg-green-500/20 border-green-500', 'bg-yellow-500/20 border-yellow-500', 'bg-purple-500/20 border-purple-500', 'bg-orange-500/20 border-orange-500'];
+const POS_COLORS = ['bg-cyan-500/20 border-cyan-500', 'bg-pink-500/20 border-pink-500', 'bg-lime-500/20 border-lime-500', 'bg-indigo-500/20 border-indigo-500', 'bg-amber-500/20 border-amber-500', 'bg-teal-500/20 border-teal-500'];
+
+const matchesPattern = (pattern: string, minterm: number): boolean => {
+    const n = pattern.length;
+    for (let i = 0; i < n; i++) {
+        if (pattern[i] === '-') continue;
+        const bit = (minterm >> (n - 1 - i)) & 1;
+        if (bit !== Number(pattern[i])) return false;
     }
-    return term || '1';
+    return true;
+};
+
+// Every prime implicant becomes a rectangle; the minimal cover is whatever Quine–McCluskey chose
+const solveKMap = (grid: KMapCell[][], minimization: MinimizationResult, colors: string[]): KMapGroup[] => {
+    const essential = new Set(minimization.essentialPrimeImplicants.map(p => p.pattern));
+    const chosen = new Set(minimization.cover.map(p => p.pattern));
+    return minimization.primeImplicants.map((p, i) => {
+        const cells: KMapGroupCell[] = [];
+        grid.forEach((row, r) => row.forEach((cell, c) => {
+            if (matchesPattern(p.pattern, cell.mintermIndex)) cells.push({ r, c });
+        }));
+        return {
+            cells,
+            color: colors[i % colors.length],
+            term: p.term,
+            kind: essential.has(p.pattern) ? 'essential' : 'selective',
+            inCover: chosen.has(p.pattern)
+        };
+    });
 };
 
 // --- Main Analysis ---
 
-export const extractVariablesFromExpression = (expression: string): string[] => {
+export const extractVariablesFromExpression = (expression: string, options: ParseOptions = {}): string[] => {
+  // Σm(…) names rows, not variables; only an F(A, B, C) = header declares any
+  if (isTermListNotation(expression)) return termListVariables(expression, options.caseSensitive).sort(compareVariables);
   try {
-    const tokens = tokenize(expression);
+    const tokens = tokenize(expression, options);
     const vars = new Set<string>();
     tokens.forEach(t => { if (t.type === 'VAR' && !['0', '1'].includes(t.value)) vars.add(t.value); });
-    return Array.from(vars).sort();
+    return Array.from(vars).sort(compareVariables);
   } catch { return []; }
 };
 
-export const evaluateRawExpression = (expression: string, context: Record<string, boolean>): boolean => {
+export const evaluateRawExpression = (expression: string, context: Record<string, boolean>, options: ParseOptions = {}): boolean => {
     try {
-        const tokens = tokenize(expression);
-        const parser = new Parser(tokens);
-        const ast = parser.parse();
+        const ast = parseExpression(expression, options);
         return evaluateAST(ast, context);
     } catch (e) {
         console.error(e);
@@ -482,125 +735,287 @@ export const evaluateRawExpression = (expression: string, context: Record<string
     }
 };
 
-export const analyzeLogic = (expression: string, declaredVariables: string[], settings: AppSettings): AnalysisResult => {
-  const tokens = tokenize(expression);
-  
-  // Layer 1: Validation
-  const validationError = validateSyntax(tokens);
-  if (validationError) throw new Error(validationError);
+// Above this many variables the exponential extras (minimization, canonical forms, K-map) are skipped,
+// and a table generated with `onPage` is delivered as packed pages instead of row objects
+export const FULL_ANALYSIS_VARIABLES = 10;
+export const PAGE_SIZE = 4096;
+// Past this many variables a formula is classified by the SAT solver rather than a truth table
+export const MAX_TABLE_VARIABLES = 20;
+
+export type PageHandler = (start: number, data: Uint8Array) => void;
 
-  // Layer 2: Parsing
-  const parser = new Parser(tokens);
-  const ast = parser.parse();
+// Parses the input against the declared variables; shared by the truth-table and SAT analyses
+export const prepareFormula = (expression: string, declaredVariables: string[], settings: AppSettings) => {
+  const parseOptions = parseOptionsFromSettings(settings);
   
+  // Σm/ΠM input is analysed as its canonical form, with the d rows marked don't-care
+  const termList = isTermListNotation(expression) ? parseTermList(expression, declaredVariables.length, parseOptions.caseSensitive) : null;
+  const dontCares = new Set(termList?.dontCares ?? []);
+
   // Variable Check
-  const usedVariables = extractVariablesFromExpression(expression);
+  const usedVariables = extractVariablesFromExpression(expression, parseOptions);
   const undeclared = usedVariables.filter(v => !declaredVariables.includes(v));
   if (undeclared.length > 0) throw new Error(`Variable${undeclared.length > 1 ? 's' : ''} ${undeclared.join(', ')} used but not declared.`);
-  
-  // Columns & Rows Construction
+  if (termList?.variables && termList.variables.length !== declaredVariables.length) {
+      throw new Error(`${termList.name}(${termList.variables.join(', ')}) must list every declared variable.`);
+  }
+
+  // An F(…) header decides which variable is the most significant bit
+  const variables = termList?.variables ?? declaredVariables;
+
+  // Layer 1 & 2: Validation and Parsing
+  const source = !termList ? expression
+      : termList.form === 'SOP' ? canonicalSOP(variables, termList.terms) : canonicalPOS(variables, termList.terms);
+  const ast = parseExpression(source, parseOptions);
+  return { termList, dontCares, variables, ast };
+};
+
+// Columns for the inputs, the sub-formulas (when shown) and the result
+const tableColumns = (ast: ASTNode, variables: string[], settings: AppSettings, termList: TermListFunction | null) => {
   const subExprNodes = extractSubExpressions(ast);
-  const varColumns: TableColumn[] = declaredVariables.map(v => ({ id: `var-${v}`, label: v, expression: v, isInput: true, isOutput: false }));
+  const varColumns: TableColumn[] = variables.map(v => ({ id: `var-${v}`, label: v, expression: v, isInput: true, isOutput: false }));
   const stepColumns: TableColumn[] = subExprNodes.filter(n => n.type !== 'VAR' && n.expression !== ast.expression).map(n => ({ id: n.id, label: formatLabel(n.expression, settings), expression: n.expression, isInput: false, isOutput: false, astId: n.id, dependencyIds: getDirectDependencies(n) }));
-  const resultColumn: TableColumn = { id: ast.id, label: formatLabel(ast.expression, settings), expression: ast.expression, isInput: false, isOutput: true, astId: ast.id, dependencyIds: getDirectDependencies(ast) };
-  const finalColumns = settings.table.showSubExpressions ? [...varColumns, ...stepColumns, resultColumn] : [...varColumns, resultColumn];
+  const resultColumn: TableColumn = { id: ast.id, label: termList ? formatTermList(termList) : formatLabel(ast.expression, settings), expression: ast.expression, isInput: false, isOutput: true, astId: ast.id, dependencyIds: getDirectDependencies(ast) };
+  // The canonical SOP's sub-terms are an artefact of the notation, not steps the user wrote
+  const finalColumns = settings.table.showSubExpressions && !termList ? [...varColumns, ...stepColumns, resultColumn] : [...varColumns, resultColumn];
+  return { varColumns, finalColumns };
+};
+
+const countOperators = (node: ASTNode): number => {
+  if (node.type === 'VAR') return 0;
+  let count = 1;
+  if (node.left) count += countOperators(node.left);
+  if (node.right) count += countOperators(node.right);
+  if (node.operand) count += countOperators(node.operand);
+  return count;
+};
+
+// RightAway Analysis
+const areNegations = (n1: ASTNode, n2: ASTNode): boolean => {
+    if (n1.type === 'NOT' && n1.operand?.expression === n2.expression) return true;
+    if (n2.type === 'NOT' && n2.operand?.expression === n1.expression) return true;
+    return false;
+};
+
+const rightAwayFor = (ast: ASTNode): RightAwayResult | undefined => {
+  if (ast.type === 'OR' && ast.left && ast.right && areNegations(ast.left, ast.right)) {
+      return { isApplicable: true, resultValue: true, explanation: "Excluded Middle Law (A ∨ ¬A) is always True." };
+  } else if (ast.type === 'AND' && ast.left && ast.right && areNegations(ast.left, ast.right)) {
+      return { isApplicable: true, resultValue: false, explanation: "Contradiction Law (A ∧ ¬A) is always False." };
+  } else if (ast.type === 'IMPLIES' && ast.left && ast.right && ast.left.expression === ast.right.expression) {
+      return { isApplicable: true, resultValue: true, explanation: "Self-implication (A → A) is always True." };
+  }
+  return undefined;
+};
+
+const formattedImplicationForms = (ast: ASTNode, settings: AppSettings): ImplicationForms | undefined => {
+  const forms = generateImplicationForms(ast);
+  return forms ? { original: formatLabel(forms.original, settings), converse: formatLabel(forms.converse, settings), inverse: formatLabel(forms.inverse, settings), contrapositive: formatLabel(forms.contrapositive, settings) } : undefined;
+};
+
+export const analyzeLogic = (expression: string, declaredVariables: string[], settings: AppSettings, onPage?: PageHandler): AnalysisResult => {
+  const { termList, dontCares, variables, ast } = prepareFormula(expression, declaredVariables, settings);
+
+  // Columns & Rows Construction
+  const { varColumns, finalColumns } = tableColumns(ast, variables, settings, termList);
+
+  const numRows = Math.pow(2, variables.length);
+  const compiled = compileAST(ast, variables);
+  const computed = finalColumns.filter(col => !col.isInput);
+  const computedSlots = computed.map(col => compiled.slotOf[col.astId!]);
+  const resultSlot = compiled.slotOf[ast.id];
+  const paged = !!onPage && variables.length > FULL_ANALYSIS_VARIABLES;
+
+  // A derivation is only shown once its result agrees with the truth table on every row
+  const simplification = simplify(ast);
+  // ...and only when the rewriting finished without lengthening the formula; otherwise the original stands
+  const shortened = simplification.complete && simplification.result.expression.length <= simplification.steps[0].expression.length;
+  const simplificationStopped = simplification.steps.length > 1 && !shortened;
+  const simplified = compileAST(simplification.result, variables);
+  const simplifiedSlot = simplified.slotOf[simplification.result.id];
+  let verified = true;
 
-  const numRows = Math.pow(2, declaredVariables.length);
   const rows: TruthTableRow[] = [];
   let tautology = true;
   let contradiction = true;
+  let page: Uint8Array | null = null;
+  const buffer: boolean[] = new Array(variables.length);
 
   for (let i = 0; i < numRows; i++) {
-    let valIndex = i;
-    if (settings.logic.rowOrder === '1→0') valIndex = (numRows - 1) - i;
-    const context: Record<string, boolean> = {};
-    declaredVariables.forEach((v, idx) => {
-      const bit = (valIndex >> (declaredVariables.length - 1 - idx)) & 1;
-      context[v] = bit === 1;
-    });
+    const valIndex = rowIndexValue(i, variables.length, settings.logic.rowOrder);
+    const inputs = rowInputs(valIndex, variables.length, buffer);
+    const slots = compiled.run(inputs);
+    const finalResult = slots[resultSlot];
+    const dontCare = dontCares.has(valIndex);
+    if (!dontCare) { if (finalResult) contradiction = false; else tautology = false; }
+    if (verified && simplified.run(inputs)[simplifiedSlot] !== finalResult) verified = false;
+
+    if (paged) {
+      // One byte per computed column, rows back to back
+      const offset = i % PAGE_SIZE;
+      if (offset === 0) page = new Uint8Array(Math.min(PAGE_SIZE, numRows - i) * computed.length);
+      for (let c = 0; c < computedSlots.length; c++) page![offset * computed.length + c] = slots[computedSlots[c]] ? 1 : 0;
+      if (offset === PAGE_SIZE - 1 || i === numRows - 1) onPage!(i - offset, page!);
+      continue;
+    }
+
     const rowValues: Record<string, boolean> = {};
-    finalColumns.forEach(col => {
-       if (col.isInput) rowValues[col.expression] = context[col.expression];
-       else {
-         const node = subExprNodes.find(n => n.id === col.astId);
-         if (node) rowValues[col.expression] = evaluateAST(node, context);
-         else if (col.isOutput) rowValues[col.expression] = evaluateAST(ast, context);
-       }
-    });
-    const finalResult = rowValues[ast.expression];
-    if (finalResult) contradiction = false; else tautology = false;
-    rows.push({ id: `row-${i}`, index: i, values: rowValues });
+    varColumns.forEach((col, v) => { rowValues[col.expression] = inputs[v]; });
+    computed.forEach((col, c) => { rowValues[col.expression] = slots[computedSlots[c]]; });
+    rows.push({ id: `row-${i}`, index: i, values: rowValues, dontCare });
   }
 
   let classification: Classification = 'Contingency';
   if (tautology) classification = 'Tautology';
   if (contradiction) classification = 'Contradiction';
   
-  const forms = generateImplicationForms(ast);
-  const kMapData = generateKMap(declaredVariables, rows);
+  // Minimization and the canonical term lists grow with the row count; past the limit they are skipped
+  const full = variables.length <= FULL_ANALYSIS_VARIABLES;
+  const minimization = full ? minimizeRows(variables, rows, ast.expression) : undefined;
+  const kMapData = minimization && generateKMap(variables, rows, ast.expression, minimization);
+  const canonical = full ? canonicalForms(variables, rows, ast.expression) : undefined;
 
   // Complexity Analysis
-  const countOperators = (node: ASTNode): number => {
-    if (node.type === 'VAR') return 0;
-    let count = 1;
-    if (node.left) count += countOperators(node.left);
-    if (node.right) count += countOperators(node.right);
-    if (node.operand) count += countOperators(node.operand);
-    return count;
-  };
   const complexity: ComplexityMetrics = {
     operators: countOperators(ast),
     depth: ast.depth,
-    totalRows: rows.length
+    totalRows: numRows
   };
 
-  // RightAway Analysis
-  let rightAway: RightAwayResult | undefined = undefined;
-  const areNegations = (n1: ASTNode, n2: ASTNode): boolean => {
-      if (n1.type === 'NOT' && n1.operand?.expression === n2.expression) return true;
-      if (n2.type === 'NOT' && n2.operand?.expression === n1.expression) return true;
-      return false;
-  };
-
-  if (ast.type === 'OR' && ast.left && ast.right && areNegations(ast.left, ast.right)) {
-      rightAway = { isApplicable: true, resultValue: true, explanation: "Excluded Middle Law (A ∨ ¬A) is always True." };
-  } else if (ast.type === 'AND' && ast.left && ast.right && areNegations(ast.left, ast.right)) {
-      rightAway = { isApplicable: true, resultValue: false, explanation: "Contradiction Law (A ∧ ¬A) is always False." };
-  } else if (ast.type === 'IMPLIES' && ast.left && ast.right && ast.left.expression === ast.right.expression) {
-      rightAway = { isApplicable: true, resultValue: true, explanation: "Self-implication (A → A) is always True." };
-  }
-
-  const simplificationSteps: SimplificationStep[] = [];
+  const simplificationSteps: SimplificationStep[] = shortened && verified && simplification.steps.length > 1
+      ? simplification.steps.map(step => ({ ...step, expression: formatLabel(step.expression, settings) }))
+      : [];
 
   return { 
     ast, 
     columns: finalColumns, 
     rows, 
-    variables: declaredVariables, 
+    variables: variables, 
     classification, 
     mainConnective: ast.type, 
-    implicationForms: forms ? { original: formatLabel(forms.original, settings), converse: formatLabel(forms.converse, settings), inverse: formatLabel(forms.inverse, settings), contrapositive: formatLabel(forms.contrapositive, settings) } : undefined, 
+    implicationForms: formattedImplicationForms(ast, settings), 
     kMapData,
+    minimization,
+    canonical,
     complexity,
-    rightAway,
-    simplificationSteps
+    rightAway: rightAwayFor(ast),
+    simplificationSteps,
+    simplificationStopped,
+    simplificationVerified: verified,
+    ...(paged ? {
+      paged: {
+        rowCount: numRows,
+        pageSize: PAGE_SIZE,
+        rowOrder: settings.logic.rowOrder,
+        computed: computed.map(col => col.expression),
+        dontCares: Array.from(dontCares),
+        pages: []
+      }
+    } : {})
   };
 };
 
+// Classifies without enumerating rows: φ is a contradiction when it has no model and a tautology
+// when ¬φ has none. Don't-care rows are excluded from both searches by a blocking clause each.
+export const analyzeBySat = (expression: string, declaredVariables: string[], settings: AppSettings): AnalysisResult => {
+  const { termList, dontCares, variables, ast } = prepareFormula(expression, declaredVariables, settings);
+  const { varColumns, finalColumns } = tableColumns(ast, variables, settings, termList);
+  const computed = finalColumns.filter(col => !col.isInput);
+  const compiled = compileAST(ast, variables);
+
+  const encoding = tseitinEncode(ast, variables);
+  const blocked = Array.from(dontCares, valIndex =>
+      variables.map((_, k) => Math.floor(valIndex / Math.pow(2, variables.length - 1 - k)) % 2 === 1 ? -(k + 1) : k + 1));
+  const search = (value: boolean) => solveCNF({
+      variableCount: encoding.variableCount,
+      clauses: [...encoding.clauses, ...blocked, [value ? encoding.root : -encoding.root]]
+  });
+  const whenTrue = search(true);
+  const whenFalse = search(false);
+
+  const witness = (model?: boolean[]): TruthTableRow | undefined => {
+    if (!model) return undefined;
+    const inputs = variables.map((_, k) => model[k + 1]);
+    const slots = compiled.run(inputs);
+    const values: Record<string, boolean> = {};
+    varColumns.forEach((col, k) => { values[col.expression] = inputs[k]; });
+    computed.forEach(col => { values[col.expression] = slots[compiled.slotOf[col.astId!]]; });
+    const index = assignmentRowIndex(values, variables, settings.logic.rowOrder);
+    return { id: `row-${index}`, index, values, dontCare: false };
+  };
+  const satisfying = witness(whenTrue.model);
+  const falsifying = witness(whenFalse.model);
+
+  let classification: Classification = 'Contingency';
+  if (!falsifying) classification = 'Tautology';
+  if (!satisfying) classification = 'Contradiction';
+
+  return {
+    ast,
+    columns: finalColumns,
+    rows: [satisfying, falsifying].filter((r): r is TruthTableRow => !!r).sort((a, b) => a.index - b.index),
+    variables,
+    classification,
+    mainConnective: ast.type,
+    implicationForms: formattedImplicationForms(ast, settings),
+    complexity: {
+      operators: countOperators(ast),
+      depth: ast.depth,
+      totalRows: Math.pow(2, variables.length)
+    },
+    rightAway: rightAwayFor(ast),
+    simplificationSteps: [],
+    sat: {
+      variables: encoding.variableCount,
+      clauses: encoding.clauses.length,
+      decisions: whenTrue.decisions + whenFalse.decisions,
+      conflicts: whenTrue.conflicts + whenFalse.conflicts,
+      satisfying,
+      falsifying
+    }
+  };
+};
+
+// Row i of a paged table, or undefined while its page has not arrived
+export const pagedRow = (analysis: AnalysisResult, i: number): TruthTableRow | undefined => {
+    const paged = analysis.paged;
+    const page = paged?.pages[Math.floor(i / paged.pageSize)];
+    if (!paged || !page) return undefined;
+    const valIndex = rowIndexValue(i, analysis.variables.length, paged.rowOrder);
+    const inputs = rowInputs(valIndex, analysis.variables.length);
+    const values: Record<string, boolean> = {};
+    analysis.variables.forEach((v, k) => { values[v] = inputs[k]; });
+    const offset = (i % paged.pageSize) * paged.computed.length;
+    paged.computed.forEach((expr, c) => { values[expr] = page[offset + c] === 1; });
+    return { id: `row-${i}`, index: i, values, dontCare: paged.dontCares.includes(valIndex) };
+};
+
+// Position of an assignment in the table; the row order mapping is its own inverse
+export const assignmentRowIndex = (assignment: Record<string, boolean>, variables: string[], rowOrder: AppSettings['logic']['rowOrder']): number =>
+    rowIndexValue(variables.reduce((acc, v) => acc * 2 + (assignment[v] ? 1 : 0), 0), variables.length, rowOrder);
+
 export const reanalyzeFromRows = (current: AnalysisResult, updatedRows: TruthTableRow[], settings: AppSettings): AnalysisResult => {
     let tautology = true;
     let contradiction = true;
     const resultExpr = current.ast.expression;
-    updatedRows.forEach(row => { const val = row.values[resultExpr]; if (val) contradiction = false; else tautology = false; });
+    updatedRows.forEach(row => {
+        if (row.dontCare) return;
+        const val = row.values[resultExpr];
+        if (val) contradiction = false; else tautology = false;
+    });
     let classification: Classification = 'Contingency';
     if (tautology) classification = 'Tautology';
     if (contradiction) classification = 'Contradiction';
-    const kMapData = generateKMap(current.variables, updatedRows);
+    const full = current.variables.length <= FULL_ANALYSIS_VARIABLES;
+    const minimization = full ? minimizeRows(current.variables, updatedRows, resultExpr) : undefined;
+    const kMapData = minimization && generateKMap(current.variables, updatedRows, resultExpr, minimization);
     return { 
         ...current, 
         rows: updatedRows, 
         classification, 
         kMapData,
+        minimization,
+        canonical: full ? canonicalForms(current.variables, updatedRows, resultExpr) : undefined,
         // Preserve calculated fields
         complexity: current.complexity,
         rightAway: current.rightAway,
@@ -609,10 +1024,24 @@ export const reanalyzeFromRows = (current: AnalysisResult, updatedRows: TruthTab
     };
 };
 
+// True when the whole string is one bracketed group: "(P ∧ Q)" but not "(P) ∧ (Q)"
+const isBracketed = (expr: string): boolean => {
+  if (!CLOSER_FOR[expr[0]]) return false;
+  let depth = 0;
+  for (let i = 0; i < expr.length; i++) {
+    if (CLOSER_FOR[expr[i]]) depth++;
+    else if ([')', ']', '}'].includes(expr[i])) depth--;
+    if (depth === 0) return i === expr.length - 1;
+  }
+  return false;
+};
+
 const generateImplicationForms = (node: ASTNode): ImplicationForms | undefined => {
   if (node.type !== 'IMPLIES' || !node.left || !node.right) return undefined;
-  const P = node.left.expression;
-  const Q = node.right.expression;
+  // Operands that are themselves binary get brackets, so swapping sides can't regroup under any precedence profile
+  const operand = (n: ASTNode) => n.type === 'VAR' || n.type === 'NOT' || isBracketed(n.expression) ? n.expression : `(${n.expression})`;
+  const P = operand(node.left);
+  const Q = operand(node.right);
   const clean = (s: string) => { if (s.startsWith('(') && s.endsWith(')')) return s.slice(1, -1); return s; }
   const pClean = clean(P);
   const qClean = clean(Q);
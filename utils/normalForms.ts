@@ -0,0 +1,140 @@
+import { ASTNode, SimplificationStep } from '../types';
+import { binaryNode, notNode, varNode } from './ast';
+
+/**
+ * Normal Forms
+ *
+ * Converts a formula to CNF or DNF in the three textbook stages, keeping each one as a step:
+ * 1. Eliminate every connective except ¬, ∧ and ∨ (↔ and ⊕ expand into the shape of the target form)
+ * 2. Push negations inward with De Morgan and double negation, giving negation normal form
+ * 3. Distribute ∨ over ∧ for CNF, or ∧ over ∨ for DNF
+ * Distribution is done on sets of clauses (or terms), which also drops repeated literals, clauses
+ * that contain a literal together with its negation, and clauses subsumed by a shorter one
+ * (P absorbs P ∨ Q in a CNF). It can grow exponentially, so it
+ * stops past MAX_NORMAL_FORM_CLAUSES; the Tseitin encoding is the linear-size alternative.
+ */
+
+export type NormalForm = 'CNF' | 'DNF';
+
+export interface NormalFormConversion {
+    form: NormalForm;
+    steps: SimplificationStep[];
+    result?: ASTNode;        // absent when distribution was stopped
+    clauses: number;         // clauses of the CNF, or terms of the DNF
+}
+
+export const MAX_NORMAL_FORM_CLAUSES = 256;
+// Each ↔ copies both sides, so nested biconditionals double the formula at every level
+const MAX_EXPANDED_LENGTH = 20000;
+
+class TooLarge extends Error {}
+
+const eliminate = (n: ASTNode, form: NormalForm): ASTNode => {
+    if (n.type === 'VAR') return n;
+    if (n.type === 'NOT') return notNode(eliminate(n.operand!, form));
+
+    const a = eliminate(n.left!, form);
+    const b = eliminate(n.right!, form);
+    const or = (x: ASTNode, y: ASTNode) => binaryNode('OR', x, y);
+    const and = (x: ASTNode, y: ASTNode) => binaryNode('AND', x, y);
+    // A ↔ B as (¬A ∨ B) ∧ (A ∨ ¬B) for CNF, (A ∧ B) ∨ (¬A ∧ ¬B) for DNF; ⊕ is its negation
+    const iff = (x: ASTNode, y: ASTNode) => form === 'CNF'
+        ? and(or(notNode(x), y), or(x, notNode(y)))
+        : or(and(x, y), and(notNode(x), notNode(y)));
+    const xor = (x: ASTNode, y: ASTNode) => form === 'CNF'
+        ? and(or(x, y), or(notNode(x), notNode(y)))
+        : or(and(x, notNode(y)), and(notNode(x), y));
+
+    let result: ASTNode;
+    switch (n.type) {
+        case 'AND': result = and(a, b); break;
+        case 'OR': result = or(a, b); break;
+        case 'IMPLIES': result = or(notNode(a), b); break;
+        case 'CONVERSE': result = or(a, notNode(b)); break;
+        case 'IFF':
+        case 'XNOR': result = iff(a, b); break;
+        case 'XOR': result = xor(a, b); break;
+        case 'NAND': result = notNode(and(a, b)); break;
+        case 'NOR': result = notNode(or(a, b)); break;
+        default: result = n;
+    }
+    if (result.expression.length > MAX_EXPANDED_LENGTH) throw new TooLarge();
+    return result;
+};
+
+// Negation normal form of a formula over ¬, ∧ and ∨
+const pushNegations = (n: ASTNode, negated = false): ASTNode => {
+    if (n.type === 'VAR') {
+        if (n.value === '1' || n.value === '0') return negated ? varNode(n.value === '1' ? '0' : '1') : n;
+        return negated ? notNode(n) : n;
+    }
+    if (n.type === 'NOT') return pushNegations(n.operand!, !negated);
+    const type = (n.type === 'AND') !== negated ? 'AND' : 'OR';
+    return binaryNode(type, pushNegations(n.left!, negated), pushNegations(n.right!, negated));
+};
+
+// A literal is its printed form: "P" or "¬P"
+type Literal = string;
+
+// The formula as a set of clauses: a conjunction of disjunctions for CNF, the dual for DNF.
+// The constants are the empty sets: no clauses is true in CNF, one empty clause is false.
+const distribute = (n: ASTNode, form: NormalForm): Literal[][] => {
+    const outer = form === 'CNF' ? 'AND' : 'OR';
+    if (n.type === 'VAR' && (n.value === '1' || n.value === '0')) {
+        return (n.value === '1') === (form === 'CNF') ? [] : [[]];
+    }
+    if (n.type === 'VAR') return [[n.value!]];
+    if (n.type === 'NOT') return [[`¬${n.operand!.value}`]];
+
+    const left = distribute(n.left!, form);
+    const right = distribute(n.right!, form);
+    if (n.type === outer ? left.length + right.length > MAX_NORMAL_FORM_CLAUSES : left.length * right.length > MAX_NORMAL_FORM_CLAUSES) {
+        throw new TooLarge();
+    }
+    if (n.type === outer) return [...left, ...right];
+    const product: Literal[][] = [];
+    for (const l of left) {
+        for (const r of right) {
+            const merged = Array.from(new Set([...l, ...r]));
+            // P ∨ ¬P is true and drops out of a CNF; P ∧ ¬P is false and drops out of a DNF
+            if (!merged.some(lit => merged.includes(`¬${lit}`))) product.push(merged);
+        }
+    }
+    return product;
+};
+
+// Absorption: a clause that contains all the literals of another adds nothing
+const removeSubsumed = (clauses: Literal[][]): Literal[][] =>
+    clauses.filter((clause, i) => !clauses.some((other, j) =>
+        j !== i && other.length <= clause.length && other.every(lit => clause.includes(lit)) && (other.length < clause.length || j < i)));
+
+const build = (clauses: Literal[][], form: NormalForm): ASTNode => {
+    const [inner, outer] = form === 'CNF' ? ['OR', 'AND'] as const : ['AND', 'OR'] as const;
+    const literal = (lit: Literal) => lit.startsWith('¬') ? notNode(varNode(lit.slice(1))) : varNode(lit);
+    const join = <T>(items: T[], type: 'AND' | 'OR', make: (item: T) => ASTNode, empty: string) =>
+        items.length === 0 ? varNode(empty) : items.map(make).reduce((acc, node) => binaryNode(type, acc, node));
+    const emptyClause = form === 'CNF' ? '0' : '1';
+    const emptyForm = form === 'CNF' ? '1' : '0';
+    return join(clauses, outer, clause => join(clause, inner, literal, emptyClause), emptyForm);
+};
+
+export const convertToNormalForm = (ast: ASTNode, form: NormalForm): NormalFormConversion => {
+    const steps: SimplificationStep[] = [{ expression: ast.expression, rule: 'Original' }];
+    const record = (node: ASTNode, rule: string) => {
+        if (node.expression !== steps[steps.length - 1].expression) steps.push({ expression: node.expression, rule });
+    };
+
+    try {
+        const eliminated = eliminate(ast, form);
+        record(eliminated, 'Eliminate →, ↔ and the other connectives');
+        const nnf = pushNegations(eliminated);
+        record(nnf, 'Push ¬ inward (negation normal form)');
+        const clauses = removeSubsumed(distribute(nnf, form));
+        const result = build(clauses, form);
+        record(result, form === 'CNF' ? 'Distribute ∨ over ∧' : 'Distribute ∧ over ∨');
+        return { form, steps, result, clauses: clauses.length };
+    } catch (e) {
+        if (!(e instanceof TooLarge)) throw e;
+        return { form, steps, clauses: 0 };
+    }
+};
@@ -0,0 +1,99 @@
+import { MinimizationForm } from '../types';
+
+/**
+ * Term-List Notation
+ *
+ * Lets a function be entered by its row numbers instead of a formula:
+ *   Σm(1, 3, 5) + d(0, 7)        minterms: rows that are 1  (also ∑, sum, m)
+ *   ΠM(0, 2, 4) + d(6)           maxterms: rows that are 0  (also ∏, prod, M)
+ *   F(A, B, C) = Σm(1, 3, 5, 7)  optional header fixing the variables and their order
+ *
+ * Row numbers read the variables as binary with the first one most significant,
+ * the same order the truth table and K-map use.
+ */
+
+export interface TermListFunction {
+    form: MinimizationForm;   // SOP for Σm, POS for ΠM
+    terms: number[];          // the listed rows: minterms for Σm, maxterms for ΠM
+    dontCares: number[];
+    variables?: string[];     // from an F(…) = header
+    name?: string;
+}
+
+const HEADER = String.raw`(?:([A-Za-z][A-Za-z0-9_]*)\s*\(\s*([^)]*)\)\s*=\s*)?`;
+const LIST = String.raw`\(\s*(\d+(?:\s*,\s*\d+)*)?\s*,?\s*\)`;
+const OPERATOR = String.raw`([Σ∑]m?|[Ss]um|m|[Π∏]M?|[Pp]rod(?:uct)?|M)`;
+const TERM_LIST = new RegExp(String.raw`^\s*${HEADER}${OPERATOR}\s*${LIST}(?:\s*\+\s*[dD][cC]?\s*${LIST})?\s*$`);
+
+export const isTermListNotation = (input: string): boolean => TERM_LIST.test(input);
+
+const parseList = (list: string | undefined): number[] =>
+    list ? Array.from(new Set(list.split(',').map(n => parseInt(n.trim(), 10)))).sort((a, b) => a - b) : [];
+
+// Header names follow the lexer's rule: uppercased unless variables are case-sensitive
+export const termListVariables = (input: string, caseSensitive = false): string[] => {
+    const header = input.match(TERM_LIST)?.[2];
+    if (!header) return [];
+    return header.split(',').map(v => v.trim()).filter(Boolean).map(v => caseSensitive ? v : v.toUpperCase());
+};
+
+export const parseTermList = (input: string, variableCount: number, caseSensitive = false): TermListFunction => {
+    const match = input.match(TERM_LIST);
+    if (!match) throw new Error('Expected Σm(…) or ΠM(…) with an optional + d(…)');
+
+    const [, name, , operator, list, dcList] = match;
+    const variables = termListVariables(input, caseSensitive);
+    const count = variables.length || variableCount;
+    if (count === 0) throw new Error('Declare variables above');
+
+    const form: MinimizationForm = /^([Σ∑]|[Ss]um|m)/.test(operator) ? 'SOP' : 'POS';
+    const listed = parseList(list);
+    const dontCares = parseList(dcList);
+    // Only the listed rows are kept; the rest follow from them, so no row is ever enumerated
+    const size = Math.pow(2, count);
+
+    const outOfRange = [...listed, ...dontCares].find(m => m >= size || !Number.isSafeInteger(m));
+    if (outOfRange !== undefined) {
+        const needed = Math.floor(Math.log2(outOfRange)) + 1;
+        throw new Error(`Row ${outOfRange} needs ${needed} variables; ${count} declared`);
+    }
+    const dontCareSet = new Set(dontCares);
+    const overlap = listed.find(m => dontCareSet.has(m));
+    if (overlap !== undefined) throw new Error(`Row ${overlap} is listed as both a ${form === 'SOP' ? 'minterm' : 'maxterm'} and a don't-care`);
+
+    return {
+        form,
+        terms: listed,
+        dontCares,
+        ...(variables.length > 0 ? { variables, name } : {})
+    };
+};
+
+export const formatTermList = ({ form, terms, dontCares, variables, name }: TermListFunction): string => {
+    const header = variables ? `${name}(${variables.join(', ')}) = ` : '';
+    const list = form === 'SOP' ? `Σm(${terms.join(', ')})` : `ΠM(${terms.join(', ')})`;
+    return header + list + (dontCares.length > 0 ? ` + d(${dontCares.join(', ')})` : '');
+};
+
+// Value of the i-th variable in row m, first variable most significant; arithmetic, so past 31 bits too
+const bitOf = (m: number, n: number, i: number): boolean => Math.floor(m / Math.pow(2, n - 1 - i)) % 2 === 1;
+
+// Parseable canonical sum of products; don't-cares are left out, so they evaluate to 0
+export const canonicalSOP = (variables: string[], minterms: number[]): string => {
+    if (minterms.length === 0) return '0';
+    const n = variables.length;
+    const terms = minterms.map(m => variables
+        .map((v, i) => bitOf(m, n, i) ? v : `¬${v}`)
+        .join(' ∧ '));
+    return terms.map(t => terms.length > 1 && n > 1 ? `(${t})` : t).join(' ∨ ');
+};
+
+// Parseable canonical product of sums: each clause is false on exactly one maxterm
+export const canonicalPOS = (variables: string[], maxterms: number[]): string => {
+    if (maxterms.length === 0) return '1';
+    const n = variables.length;
+    const clauses = maxterms.map(m => variables
+        .map((v, i) => bitOf(m, n, i) ? `¬${v}` : v)
+        .join(' ∨ '));
+    return clauses.map(c => clauses.length > 1 && n > 1 ? `(${c})` : c).join(' ∧ ');
+};
@@ -0,0 +1,210 @@
+import { Implicant, MinimizationForm, MinimizationResult } from '../types';
+
+/**
+ * Quine–McCluskey Minimizer
+ *
+ * 1. Repeatedly merge implicants differing in one bit until none combine: the leftovers are the primes.
+ * 2. Primes that alone cover some minterm are essential.
+ * 3. Petrick's method over the remaining chart picks the cover with the fewest terms, then fewest literals.
+ *    Its product of sums is exponential in the cyclic core, so past MAX_PETRICK_CANDIDATES primes or
+ *    MAX_PETRICK_PRODUCTS partial products a greedy cover is used instead (small, not always minimal).
+ *
+ * Works for any variable count; don't-cares may be merged into groups but never need covering.
+ * POS is the same search run over the maxterms (0-cells), read back as sum clauses.
+ */
+
+interface Cube {
+    value: number; // bit values, 0 wherever masked
+    mask: number;  // 1 bits are eliminated variables ('-')
+    minterms: number[];
+}
+
+const popcount = (n: number): number => {
+    let count = 0;
+    while (n) { n &= n - 1; count++; }
+    return count;
+};
+
+const popcountBig = (n: bigint): number => {
+    let count = 0;
+    while (n) { n &= n - 1n; count++; }
+    return count;
+};
+
+export const joinTerms = (terms: string[]): string =>
+    terms.map(t => terms.length > 1 && t.includes(' ∧ ') ? `(${t})` : t).join(' ∨ ');
+
+export const joinClauses = (clauses: string[]): string =>
+    clauses.map(c => clauses.length > 1 && c.includes(' ∨ ') ? `(${c})` : c).join(' ∧ ');
+
+// A maxterm group reads as the clause that is false exactly on it: 1-bits negate, 0-bits stay positive
+const toImplicant = (cube: Cube, variables: string[], required: Set<number>, form: MinimizationForm): Implicant => {
+    const n = variables.length;
+    let pattern = '';
+    const literals: string[] = [];
+    for (let i = 0; i < n; i++) {
+        const bit = 1 << (n - 1 - i);
+        if (cube.mask & bit) { pattern += '-'; continue; }
+        const on = (cube.value & bit) !== 0;
+        pattern += on ? '1' : '0';
+        literals.push(on === (form === 'SOP') ? variables[i] : `¬${variables[i]}`);
+    }
+    return {
+        pattern,
+        minterms: cube.minterms.filter(m => required.has(m)),
+        // Always an explicit ∧: juxtaposed letters (AB) would read back as one multi-letter name
+        term: form === 'SOP' ? (literals.join(' ∧ ') || '1') : (literals.join(' ∨ ') || '0'),
+        literalCount: literals.length
+    };
+};
+
+const findPrimeCubes = (onSet: number[]): Cube[] => {
+    let current: Cube[] = onSet.map(m => ({ value: m, mask: 0, minterms: [m] }));
+    const primes: Cube[] = [];
+
+    while (current.length > 0) {
+        const merged = new Map<string, Cube>();
+        const used = new Set<Cube>();
+
+        // Only cubes with the same mask and adjacent ones-counts can merge
+        const buckets = new Map<string, Cube[]>();
+        current.forEach(c => {
+            const key = `${c.mask}:${popcount(c.value)}`;
+            if (!buckets.has(key)) buckets.set(key, []);
+            buckets.get(key)!.push(c);
+        });
+
+        current.forEach(a => {
+            const neighbours = buckets.get(`${a.mask}:${popcount(a.value) + 1}`) || [];
+            neighbours.forEach(b => {
+                const diff = a.value ^ b.value;
+                if (popcount(diff) !== 1) return;
+                used.add(a);
+                used.add(b);
+                const mask = a.mask | diff;
+                const value = a.value & ~diff;
+                const key = `${mask}:${value}`;
+                if (!merged.has(key)) {
+                    merged.set(key, { value, mask, minterms: [...a.minterms, ...b.minterms].sort((x, y) => x - y) });
+                }
+            });
+        });
+
+        current.forEach(c => { if (!used.has(c)) primes.push(c); });
+        current = Array.from(merged.values());
+    }
+    return primes;
+};
+
+// Reading order: terms on earlier variables first, positive literals before negated ones
+const PATTERN_RANK: Record<string, number> = { '1': 0, '0': 1, '-': 2 };
+const comparePatterns = (a: string, b: string): number => {
+    for (let i = 0; i < a.length; i++) {
+        const diff = PATTERN_RANK[a[i]] - PATTERN_RANK[b[i]];
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+const MAX_PETRICK_CANDIDATES = 24;
+const MAX_PETRICK_PRODUCTS = 512;
+
+// Petrick's method: multiply out the product of sums with absorption, then take the cheapest product.
+// Returns null when the expansion outgrows the caps.
+const petrick = (uncovered: number[], candidates: Implicant[]): number[] | null => {
+    if (candidates.length > MAX_PETRICK_CANDIDATES) return null;
+    let products: bigint[] = [0n];
+
+    for (const m of uncovered) {
+        const coverers = candidates.map((p, i) => p.minterms.includes(m) ? i : -1).filter(i => i >= 0);
+        const next: bigint[] = [];
+        products.forEach(p => coverers.forEach(c => next.push(p | (1n << BigInt(c)))));
+        if (next.length > MAX_PETRICK_PRODUCTS * 4) return null;
+
+        // Absorption: X + XY = X
+        next.sort((a, b) => popcountBig(a) - popcountBig(b));
+        const kept: bigint[] = [];
+        next.forEach(q => { if (!kept.some(k => (k & q) === k)) kept.push(q); });
+        products = kept;
+        if (products.length > MAX_PETRICK_PRODUCTS) return null;
+    }
+
+    const cost = (p: bigint) => {
+        let terms = 0;
+        let literals = 0;
+        candidates.forEach((c, i) => { if (p & (1n << BigInt(i))) { terms++; literals += c.literalCount; } });
+        return terms * 1000 + literals;
+    };
+    const best = products.reduce((a, b) => cost(b) < cost(a) ? b : a);
+    return candidates.map((_, i) => i).filter(i => best & (1n << BigInt(i)));
+};
+
+// Greedy set cover: repeatedly take the prime covering the most remaining minterms, fewest literals first
+const greedyCover = (uncovered: number[], candidates: Implicant[]): number[] => {
+    const remaining = new Set(uncovered);
+    const chosen: number[] = [];
+    while (remaining.size > 0) {
+        let best = -1;
+        let bestGain = 0;
+        candidates.forEach((p, i) => {
+            const gain = p.minterms.filter(m => remaining.has(m)).length;
+            if (gain > bestGain || (gain === bestGain && gain > 0 && p.literalCount < candidates[best].literalCount)) {
+                best = i;
+                bestGain = gain;
+            }
+        });
+        if (best < 0) break;
+        chosen.push(best);
+        candidates[best].minterms.forEach(m => remaining.delete(m));
+    }
+    return chosen;
+};
+
+const minimize = (form: MinimizationForm, variables: string[], cells: number[], dontCares: number[]): MinimizationResult => {
+    const required = new Set(cells);
+    const onSet = Array.from(new Set([...cells, ...dontCares])).sort((a, b) => a - b);
+
+    if (required.size === 0) {
+        return { form, variables, primeImplicants: [], essentialPrimeImplicants: [], cover: [], expression: form === 'SOP' ? '0' : '1', exact: true };
+    }
+
+    // Primes made only of don't-cares never help a cover
+    const primeImplicants = findPrimeCubes(onSet)
+        .map(c => toImplicant(c, variables, required, form))
+        .filter(p => p.minterms.length > 0)
+        .sort((a, b) => a.literalCount - b.literalCount || comparePatterns(a.pattern, b.pattern));
+
+    const essential = new Set<Implicant>();
+    required.forEach(m => {
+        const coverers = primeImplicants.filter(p => p.minterms.includes(m));
+        if (coverers.length === 1) essential.add(coverers[0]);
+    });
+
+    const covered = new Set<number>();
+    essential.forEach(p => p.minterms.forEach(m => covered.add(m)));
+    const uncovered = Array.from(required).filter(m => !covered.has(m));
+    const candidates = primeImplicants.filter(p => !essential.has(p));
+    const exactPick = uncovered.length > 0 ? petrick(uncovered, candidates) : [];
+    const picked = exactPick ?? greedyCover(uncovered, candidates);
+    const selected = picked.map(i => candidates[i]);
+
+    const essentialPrimeImplicants = primeImplicants.filter(p => essential.has(p));
+    const cover = primeImplicants.filter(p => essential.has(p) || selected.includes(p));
+
+    const parts = cover.map(p => p.term);
+    return {
+        form,
+        variables,
+        primeImplicants,
+        essentialPrimeImplicants,
+        cover,
+        expression: form === 'SOP' ? joinTerms(parts) : joinClauses(parts),
+        exact: exactPick !== null
+    };
+};
+
+export const minimizeSOP = (variables: string[], minterms: number[], dontCares: number[] = []): MinimizationResult =>
+    minimize('SOP', variables, minterms, dontCares);
+
+export const minimizePOS = (variables: string[], maxterms: number[], dontCares: number[] = []): MinimizationResult =>
+    minimize('POS', variables, maxterms, dontCares);
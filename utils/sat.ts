@@ -0,0 +1,283 @@
+import { ASTNode } from '../types';
+
+/**
+ * Satisfiability
+ *
+ * Formulas with too many variables for a truth table are decided by search instead. The formula
+ * is Tseitin-encoded into CNF: every connective gets a fresh variable constrained to equal it, so
+ * the clauses stay linear in the size of the formula and have a model exactly when the formula
+ * does. The solver is a small CDCL engine: unit propagation over two watched literals, first-UIP
+ * clause learning with non-chronological backjumping, activity-based branching with phase saving,
+ * and geometric restarts.
+ *
+ * Literals follow DIMACS: variable v is the literal v, its negation -v, and variables count from 1.
+ */
+
+export interface CNF {
+    variableCount: number;
+    clauses: number[][];
+}
+
+export interface TseitinEncoding extends CNF {
+    root: number;                                              // literal equivalent to the whole formula
+    inputs: string[];                                          // input i + 1 is variable i + 1
+    definitions: { variable: number; expression: string }[];   // the fresh variables, in order
+}
+
+export interface SatOutcome {
+    model?: boolean[];   // indexed by variable; absent when the clauses are unsatisfiable
+    decisions: number;
+    conflicts: number;
+}
+
+type Gate = 'AND' | 'OR' | 'IFF';
+
+// The remaining connectives are these three gates with negated inputs or a negated output
+const GATES: Record<string, { gate: Gate; negateLeft?: boolean; negateRight?: boolean; negateOutput?: boolean }> = {
+    AND: { gate: 'AND' },
+    OR: { gate: 'OR' },
+    IFF: { gate: 'IFF' },
+    XNOR: { gate: 'IFF' },
+    NAND: { gate: 'AND', negateOutput: true },
+    NOR: { gate: 'OR', negateOutput: true },
+    XOR: { gate: 'IFF', negateOutput: true },
+    IMPLIES: { gate: 'OR', negateLeft: true },
+    CONVERSE: { gate: 'OR', negateRight: true }
+};
+
+const gateClauses = (gate: Gate, x: number, a: number, b: number): number[][] => {
+    switch (gate) {
+        case 'AND': return [[-x, a], [-x, b], [x, -a, -b]];
+        case 'OR': return [[x, -a], [x, -b], [-x, a, b]];
+        case 'IFF': return [[-x, -a, b], [-x, a, -b], [x, a, b], [x, -a, -b]];
+    }
+};
+
+export const tseitinEncode = (ast: ASTNode, inputs: string[]): TseitinEncoding => {
+    const clauses: number[][] = [];
+    const definitions: TseitinEncoding['definitions'] = [];
+    let variableCount = inputs.length;
+    // Identical gates over identical literals share one variable
+    const shared = new Map<string, number>();
+    let truth = 0;
+
+    const encode = (n: ASTNode): number => {
+        if (n.type === 'VAR') {
+            if (n.value === '1' || n.value === '0') {
+                if (!truth) {
+                    truth = ++variableCount;
+                    definitions.push({ variable: truth, expression: '1' });
+                    clauses.push([truth]);
+                }
+                return n.value === '1' ? truth : -truth;
+            }
+            return inputs.indexOf(n.value!) + 1;
+        }
+        if (n.type === 'NOT') return -encode(n.operand!);
+
+        const { gate, negateLeft, negateRight, negateOutput } = GATES[n.type];
+        const a = negateLeft ? -encode(n.left!) : encode(n.left!);
+        const b = negateRight ? -encode(n.right!) : encode(n.right!);
+        const key = `${gate} ${a} ${b}`;
+        let x = shared.get(key);
+        if (x === undefined) {
+            x = ++variableCount;
+            shared.set(key, x);
+            definitions.push({ variable: x, expression: negateOutput ? `¬(${n.expression})` : n.expression });
+            clauses.push(...gateClauses(gate, x, a, b));
+        }
+        return negateOutput ? -x : x;
+    };
+
+    const root = encode(ast);
+    return { variableCount, clauses, root, inputs, definitions };
+};
+
+export const solveCNF = (cnf: CNF): SatOutcome => {
+    const n = cnf.variableCount;
+    const value = new Int8Array(n + 1);                                  // 1 true, -1 false, 0 unassigned
+    const level = new Int32Array(n + 1);
+    const reason: (number[] | null)[] = new Array(n + 1).fill(null);
+    const activity = new Float64Array(n + 1);
+    const phase = new Uint8Array(n + 1);                                 // last value held, tried first
+    const watches: number[][][] = Array.from({ length: 2 * n + 2 }, () => []);
+    const trail: number[] = [];
+    const trailLimits: number[] = [];                                   // trail length at each decision
+    let head = 0;
+    let increment = 1;
+    let decisions = 0;
+    let conflicts = 0;
+
+    const slot = (lit: number) => (lit > 0 ? 2 * lit : -2 * lit + 1);
+    const valueOf = (lit: number) => (lit > 0 ? value[lit] : -value[-lit]);
+    const assign = (lit: number, why: number[] | null) => {
+        const v = Math.abs(lit);
+        value[v] = lit > 0 ? 1 : -1;
+        level[v] = trailLimits.length;
+        reason[v] = why;
+        trail.push(lit);
+    };
+    const unsatisfiable = (): SatOutcome => ({ decisions, conflicts });
+
+    for (const original of cnf.clauses) {
+        const clause = Array.from(new Set(original));
+        if (clause.some(lit => clause.includes(-lit))) continue;
+        if (clause.length === 0) return unsatisfiable();
+        if (clause.length === 1) {
+            if (valueOf(clause[0]) === -1) return unsatisfiable();
+            if (valueOf(clause[0]) === 0) assign(clause[0], null);
+            continue;
+        }
+        watches[slot(clause[0])].push(clause);
+        watches[slot(clause[1])].push(clause);
+    }
+
+    // Returns the falsified clause on a conflict
+    const propagate = (): number[] | null => {
+        while (head < trail.length) {
+            const falseLit = -trail[head++];
+            const list = watches[slot(falseLit)];
+            let kept = 0;
+            let i = 0;
+            next: for (; i < list.length; i++) {
+                const clause = list[i];
+                // The watched literals are the first two; keep the false one second
+                if (clause[0] === falseLit) { clause[0] = clause[1]; clause[1] = falseLit; }
+                if (valueOf(clause[0]) === 1) { list[kept++] = clause; continue; }
+                for (let k = 2; k < clause.length; k++) {
+                    if (valueOf(clause[k]) !== -1) {
+                        clause[1] = clause[k];
+                        clause[k] = falseLit;
+                        watches[slot(clause[1])].push(clause);
+                        continue next;
+                    }
+                }
+                list[kept++] = clause;
+                if (valueOf(clause[0]) === -1) {
+                    for (i++; i < list.length; i++) list[kept++] = list[i];
+                    list.length = kept;
+                    head = trail.length;
+                    return clause;
+                }
+                assign(clause[0], clause);
+            }
+            list.length = kept;
+        }
+        return null;
+    };
+
+    const bump = (v: number) => {
+        activity[v] += increment;
+        if (activity[v] > 1e100) {
+            for (let k = 1; k <= n; k++) activity[k] *= 1e-100;
+            increment *= 1e-100;
+        }
+    };
+
+    // First-UIP learning: resolve the conflict back along the current level until one literal remains
+    const analyze = (conflict: number[]): { learnt: number[]; backjump: number } => {
+        const seen = new Uint8Array(n + 1);
+        const learnt: number[] = [0];
+        const current = trailLimits.length;
+        let clause: number[] | null = conflict;
+        let open = 0;
+        let lit = 0;
+        let index = trail.length - 1;
+        do {
+            for (const q of clause!) {
+                const v = Math.abs(q);
+                if (q === lit || seen[v] || level[v] === 0) continue;
+                seen[v] = 1;
+                bump(v);
+                if (level[v] === current) open++;
+                else learnt.push(q);
+            }
+            while (!seen[Math.abs(trail[index])]) index--;
+            lit = trail[index--];
+            clause = reason[Math.abs(lit)];
+            seen[Math.abs(lit)] = 0;
+            open--;
+        } while (open > 0);
+        learnt[0] = -lit;
+
+        // The highest remaining level is where the learnt clause becomes unit; watch that literal second
+        let backjump = 0;
+        for (let k = 1; k < learnt.length; k++) {
+            const l = level[Math.abs(learnt[k])];
+            if (l > backjump) {
+                backjump = l;
+                [learnt[1], learnt[k]] = [learnt[k], learnt[1]];
+            }
+        }
+        return { learnt, backjump };
+    };
+
+    const backtrack = (target: number) => {
+        if (trailLimits.length <= target) return;
+        const limit = trailLimits[target];
+        for (let k = trail.length - 1; k >= limit; k--) {
+            const v = Math.abs(trail[k]);
+            phase[v] = trail[k] > 0 ? 1 : 0;
+            value[v] = 0;
+            reason[v] = null;
+        }
+        trail.length = limit;
+        trailLimits.length = target;
+        head = limit;
+    };
+
+    const pickBranch = (): number => {
+        let best = 0;
+        for (let v = 1; v <= n; v++) {
+            if (value[v] === 0 && (best === 0 || activity[v] > activity[best])) best = v;
+        }
+        return best;
+    };
+
+    let restartAt = 100;
+    let sinceRestart = 0;
+    for (;;) {
+        const conflict = propagate();
+        if (conflict) {
+            conflicts++;
+            sinceRestart++;
+            if (trailLimits.length === 0) return unsatisfiable();
+            const { learnt, backjump } = analyze(conflict);
+            backtrack(backjump);
+            if (learnt.length === 1) {
+                assign(learnt[0], null);
+            } else {
+                watches[slot(learnt[0])].push(learnt);
+                watches[slot(learnt[1])].push(learnt);
+                assign(learnt[0], learnt);
+            }
+            increment /= 0.95;
+            continue;
+        }
+        if (sinceRestart >= restartAt) {
+            sinceRestart = 0;
+            restartAt = Math.floor(restartAt * 1.5);
+            backtrack(0);
+            continue;
+        }
+        const v = pickBranch();
+        if (v === 0) {
+            const model = Array.from(value, x => x === 1);
+            return { model, decisions, conflicts };
+        }
+        decisions++;
+        trailLimits.push(trail.length);
+        assign(phase[v] ? v : -v, null);
+    }
+};
+
+// DIMACS text of the encoding with the root asserted, so it is satisfiable exactly when the formula
+// is. Comment lines map the numbers back to the inputs and the sub-formulas they stand for.
+export const toDimacs = (encoding: TseitinEncoding, title: string): string => [
+    `c ${title}`,
+    ...encoding.inputs.map((name, i) => `c ${i + 1} = ${name}`),
+    ...encoding.definitions.map(d => `c ${d.variable} = ${d.expression}`),
+    `p cnf ${encoding.variableCount} ${encoding.clauses.length + 1}`,
+    ...encoding.clauses.map(clause => `${clause.join(' ')} 0`),
+    `${encoding.root} 0`
+].join('\n') + '\n';
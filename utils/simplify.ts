@@ -0,0 +1,203 @@
+import { ASTNode, SimplificationStep } from '../types';
+import { binaryNode, notNode, varNode } from './ast';
+
+/**
+ * Algebraic Simplification
+ *
+ * Rewrites a formula one named law at a time and records every application:
+ * 1. Definitions: →, ←, ↔, ⊕, ⊙, ↑, ↓ are expanded into ¬, ∧, ∨.
+ * 2. Negations move inward (De Morgan, double negation).
+ * 3. ∧/∨ chains are treated as flat operand lists and cleaned up with the constant laws,
+ *    idempotence, complement, absorption, redundancy and factoring by distribution.
+ *
+ * The innermost applicable law wins, so subformulas are tidied before the formulas around them
+ * are expanded. No law grows a chain back out, which keeps the rewriting terminating;
+ * `maxSteps` caps the length of the trace for very large inputs, and `complete` is false when it
+ * cut the rewriting short (↔ and ⊕ chains double with every expansion and rarely finish).
+ */
+
+type Junction = 'AND' | 'OR';
+
+interface Law {
+    name: string;
+    apply: (node: ASTNode) => ASTNode | null;
+}
+
+const constant = (value: boolean) => varNode(value ? '1' : '0');
+const isConstant = (n: ASTNode, value: boolean) => n.type === 'VAR' && n.value === (value ? '1' : '0');
+const same = (a: ASTNode, b: ASTNode) => a.expression === b.expression;
+const isNegationOf = (a: ASTNode, b: ASTNode) =>
+    (a.type === 'NOT' && same(a.operand!, b)) || (b.type === 'NOT' && same(b.operand!, a));
+const dual = (type: Junction): Junction => type === 'AND' ? 'OR' : 'AND';
+
+// A ∧ (B ∧ C) and (A ∧ B) ∧ C are the same list [A, B, C]
+const flatten = (n: ASTNode, type: Junction): ASTNode[] =>
+    n.type === type ? [...flatten(n.left!, type), ...flatten(n.right!, type)] : [n];
+
+// Empty ∧ is 1 and empty ∨ is 0, the identity elements
+const join = (type: Junction, items: ASTNode[]): ASTNode =>
+    items.length === 0 ? constant(type === 'AND') : items.reduce((acc, item) => binaryNode(type, acc, item));
+
+const includesNode = (list: ASTNode[], n: ASTNode) => list.some(item => same(item, n));
+const without = (list: ASTNode[], remove: ASTNode[]) => list.filter(item => !includesNode(remove, item));
+
+// --- Laws on a single node ---
+
+const DEFINITIONS: Law[] = [
+    { name: 'Implication elimination', apply: n => n.type === 'IMPLIES' ? binaryNode('OR', notNode(n.left!), n.right!) : null },
+    { name: 'Converse elimination', apply: n => n.type === 'CONVERSE' ? binaryNode('OR', n.left!, notNode(n.right!)) : null },
+    {
+        name: 'Biconditional elimination',
+        apply: n => n.type === 'IFF' || n.type === 'XNOR'
+            ? binaryNode('OR', binaryNode('AND', n.left!, n.right!), binaryNode('AND', notNode(n.left!), notNode(n.right!)))
+            : null
+    },
+    {
+        name: 'Exclusive-or elimination',
+        apply: n => n.type === 'XOR'
+            ? binaryNode('OR', binaryNode('AND', n.left!, notNode(n.right!)), binaryNode('AND', notNode(n.left!), n.right!))
+            : null
+    },
+    { name: 'NAND definition', apply: n => n.type === 'NAND' ? notNode(binaryNode('AND', n.left!, n.right!)) : null },
+    { name: 'NOR definition', apply: n => n.type === 'NOR' ? notNode(binaryNode('OR', n.left!, n.right!)) : null },
+];
+
+const NEGATION: Law[] = [
+    { name: 'Double negation', apply: n => n.type === 'NOT' && n.operand!.type === 'NOT' ? n.operand!.operand! : null },
+    {
+        name: 'Negated constant',
+        apply: n => n.type === 'NOT' && (isConstant(n.operand!, true) || isConstant(n.operand!, false)) ? constant(isConstant(n.operand!, false)) : null
+    },
+    {
+        name: 'De Morgan',
+        apply: n => {
+            if (n.type !== 'NOT') return null;
+            const inner = n.operand!;
+            if (inner.type !== 'AND' && inner.type !== 'OR') return null;
+            return binaryNode(dual(inner.type), notNode(inner.left!), notNode(inner.right!));
+        }
+    },
+];
+
+// Each junction law sees the whole flattened chain and returns the new operand list
+type ChainLaw = { name: string; apply: (items: ASTNode[], type: Junction) => ASTNode[] | null };
+
+const CHAIN: ChainLaw[] = [
+    {
+        name: 'Domination',
+        apply: (items, type) => items.some(i => isConstant(i, type === 'OR')) ? [constant(type === 'OR')] : null
+    },
+    {
+        name: 'Identity',
+        apply: (items, type) => {
+            const kept = items.filter(i => !isConstant(i, type === 'AND'));
+            return kept.length < items.length ? kept : null;
+        }
+    },
+    {
+        name: 'Complement',
+        apply: (items, type) => items.some(a => items.some(b => isNegationOf(a, b))) ? [constant(type === 'OR')] : null
+    },
+    {
+        name: 'Idempotence',
+        apply: items => {
+            const kept = items.filter((item, i) => items.findIndex(other => same(other, item)) === i);
+            return kept.length < items.length ? kept : null;
+        }
+    },
+    {
+        // A ∨ (A ∧ B) = A: an operand whose factors include all of another operand's factors is redundant
+        name: 'Absorption',
+        apply: (items, type) => {
+            for (const x of items) {
+                const xs = flatten(x, dual(type));
+                const absorbed = items.find(y => y !== x && !same(x, y) && xs.every(f => includesNode(flatten(y, dual(type)), f)));
+                if (absorbed) return items.filter(i => i !== absorbed);
+            }
+            return null;
+        }
+    },
+    {
+        // A ∨ (¬A ∧ B) = A ∨ B
+        name: 'Redundancy',
+        apply: (items, type) => {
+            for (const x of items) {
+                if (x.type === dual(type)) continue;
+                for (const y of items) {
+                    if (y.type !== dual(type)) continue;
+                    const ys = flatten(y, dual(type));
+                    const negated = ys.find(f => isNegationOf(f, x));
+                    if (negated) return items.map(i => i === y ? join(dual(type), ys.filter(f => f !== negated)) : i);
+                }
+            }
+            return null;
+        }
+    },
+    {
+        // (A ∧ B) ∨ (A ∧ C) = A ∧ (B ∨ C)
+        name: 'Distribution',
+        apply: (items, type) => {
+            for (let i = 0; i < items.length; i++) {
+                for (let j = i + 1; j < items.length; j++) {
+                    const xs = flatten(items[i], dual(type));
+                    const ys = flatten(items[j], dual(type));
+                    const common = xs.filter(f => includesNode(ys, f));
+                    const xRest = without(xs, common);
+                    const yRest = without(ys, common);
+                    if (common.length === 0 || xRest.length === 0 || yRest.length === 0) continue;
+                    const factored = join(dual(type), [...common, binaryNode(type, join(dual(type), xRest), join(dual(type), yRest))]);
+                    return items.flatMap((item, k) => k === i ? [factored] : k === j ? [] : [item]);
+                }
+            }
+            return null;
+        }
+    },
+];
+
+const applyLaw = (n: ASTNode): { node: ASTNode; law: string } | null => {
+    for (const law of [...DEFINITIONS, ...NEGATION]) {
+        const result = law.apply(n);
+        if (result) return { node: result, law: law.name };
+    }
+    if (n.type === 'AND' || n.type === 'OR') {
+        const items = flatten(n, n.type);
+        for (const law of CHAIN) {
+            const result = law.apply(items, n.type);
+            if (result) return { node: join(n.type, result), law: law.name };
+        }
+    }
+    return null;
+};
+
+// One rewrite at the innermost position where any law applies
+const rewriteOnce = (n: ASTNode): { node: ASTNode; law: string } | null => {
+    if (n.type === 'NOT') {
+        const inner = rewriteOnce(n.operand!);
+        if (inner) return { node: notNode(inner.node), law: inner.law };
+    } else if (n.type !== 'VAR') {
+        const left = rewriteOnce(n.left!);
+        if (left) return { node: binaryNode(n.type, left.node, n.right!), law: left.law };
+        const right = rewriteOnce(n.right!);
+        if (right) return { node: binaryNode(n.type, n.left!, right.node), law: right.law };
+    }
+    return applyLaw(n);
+};
+
+// Parsed expressions keep the user's spelling; rebuilding gives every node the builders' canonical text
+const rebuild = (n: ASTNode): ASTNode => {
+    if (n.type === 'VAR') return varNode(n.value!);
+    if (n.type === 'NOT') return notNode(rebuild(n.operand!));
+    return binaryNode(n.type, rebuild(n.left!), rebuild(n.right!));
+};
+
+export const simplify = (ast: ASTNode, maxSteps = 100): { result: ASTNode; steps: SimplificationStep[]; complete: boolean } => {
+    let current = rebuild(ast);
+    const steps: SimplificationStep[] = [{ expression: current.expression, rule: 'Given' }];
+    for (let i = 0; i < maxSteps; i++) {
+        const next = rewriteOnce(current);
+        if (!next) return { result: current, steps, complete: true };
+        current = next.node;
+        steps.push({ expression: current.expression, rule: next.law });
+    }
+    return { result: current, steps, complete: rewriteOnce(current) === null };
+};
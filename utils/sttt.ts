@@ -1,5 +1,6 @@
 
-import { ASTNode, STTTBranch, STTTReport, STTTStep, AssignmentMap, STTTProofType } from '../types';
+import { ASTNode, STTTBranch, STTTReport, STTTStep, AssignmentMap, STTTProofType, STTTProofPart, STTTContradiction, STTTStrategy, STTTStats } from '../types';
+import { evaluateAST } from './logic';
 
 /**
  * Shortened Truth Table Technique (STTT) Engine V6.5
@@ -7,84 +8,67 @@ import { ASTNode, STTTBranch, STTTReport, STTTStep, AssignmentMap, STTTProofType
  * Supports:
  * - Tautology (Assume F)
  * - Contradiction/Absurdity (Assume T)
- * - Tautological Implication (Argument Validity): P -> Q (Assume P=T, Q=F)
- * - Tautological Equivalence: P <-> Q (Assume F, requires double branching)
- * - Contingency (Check both Tautology and Contradiction)
+ * - Argument Validity: premises P1..Pn ⊢ C (Assume every Pi=T, C=F); P -> Q is the one-premise case
+ * - Tautological Equivalence: P <-> Q (two parts: P=T,Q=F and Q=T,P=F)
+ * - Contingency (two parts: Assume F and Assume T, each needing a witness)
+ *
+ * Branching strategies: FIFO splits as soon as a branching node is reached; deterministic-first
+ * and most-constrained defer every split until no forced move is left (see `pickBranchPoint`).
  */
 
-interface ProcessingNode {
+export interface ProcessingNode {
     ast: ASTNode;
     targetValue: boolean;
+    source?: number; // index of the initial assumption this value was derived from
 }
 
-export const generateSTTTReport = (ast: ASTNode, variables: string[], target: STTTProofType = 'Tautology'): STTTReport => {
+// Refutes one set of assumptions; the report builders below only decide what to assume
+export type PartSolver = (title: string, assumptions: ProcessingNode[], variables: string[]) => STTTProofPart;
+
+const stttSolver = (strategy: STTTStrategy): PartSolver =>
+    (title, assumptions, variables) => solvePart(title, assumptions, variables, strategy);
+
+export const generateSTTTReport = (
+    ast: ASTNode, variables: string[], target: STTTProofType = 'Tautology', strategy: STTTStrategy = 'FIFO'
+): STTTReport => buildTargetReport(ast, variables, target, stttSolver(strategy));
+
+export const generateArgumentReport = (
+    premises: ASTNode[], conclusion: ASTNode, variables: string[], strategy: STTTStrategy = 'FIFO'
+): STTTReport => buildArgumentReport(premises, conclusion, variables, stttSolver(strategy));
+
+export const buildTargetReport = (ast: ASTNode, variables: string[], target: STTTProofType, solve: PartSolver): STTTReport => {
     
-    // Special Handling for Contingency: It requires checking TWO conditions.
+    // Contingency and equivalence are argued in two independent halves
     if (target === 'Contingency') {
-        return generateContingencyReport(ast, variables);
+        return buildContingencyReport(ast, variables, solve);
+    }
+    if (target === 'Equivalence' && ast.type === 'IFF' && ast.left && ast.right) {
+        return buildEquivalenceReport(ast, variables, solve);
+    }
+
+    // P → Q is valid exactly when the argument P ⊢ Q is; any other formula is an argument with no premises
+    if (target === 'Implication') {
+        return ast.type === 'IMPLIES' && ast.left && ast.right
+            ? buildArgumentReport([ast.left], ast.right, variables, solve)
+            : buildArgumentReport([], ast, variables, solve);
     }
 
     // 1. Initial Assumption Logic based on Target Type
-    let rootQueue: ProcessingNode[] = [];
-    let initialAssumptions: { expr: string, val: boolean }[] = [];
-    let proofTitle = '';
-
-    if (target === 'Tautology') {
-        rootQueue = [{ ast, targetValue: false }];
-        initialAssumptions = [{ expr: ast.expression, val: false }];
-        proofTitle = "Prove Tautology";
-    } else if (target === 'Contradiction') {
+    let rootQueue: ProcessingNode[] = [{ ast, targetValue: false }];
+    let proofTitle = "Prove Tautology";
+
+    if (target === 'Contradiction') {
         rootQueue = [{ ast, targetValue: true }];
-        initialAssumptions = [{ expr: ast.expression, val: true }];
         proofTitle = "Prove Absurdity (Contradiction)";
-    } else if (target === 'Implication') {
-        // Only valid if AST is IMPLIES
-        if (ast.type === 'IMPLIES' && ast.left && ast.right) {
-            // To disprove P->Q, assume P=T, Q=F
-            rootQueue = [
-                { ast: ast.left, targetValue: true },
-                { ast: ast.right, targetValue: false }
-            ];
-            initialAssumptions = [
-                { expr: ast.left.expression, val: true },
-                { expr: ast.right.expression, val: false }
-            ];
-            proofTitle = "Prove Argument Validity (T.I.)";
-        } else {
-             // Fallback
-             rootQueue = [{ ast, targetValue: false }];
-             target = 'Tautology'; 
-             proofTitle = "Prove Tautology (Fallback)";
-        }
-    } else if (target === 'Equivalence') {
-        // Only valid if AST is IFF
-        if (ast.type === 'IFF' && ast.left && ast.right) {
-             return generateEquivalenceReport(ast, variables);
-        } else {
-            rootQueue = [{ ast, targetValue: false }];
-            target = 'Tautology';
-            proofTitle = "Prove Tautology (Fallback)";
-        }
+    } else if (target !== 'Tautology') {
+        // Equivalence needs ↔ as the main connective
+        target = 'Tautology';
+        proofTitle = "Prove Tautology (Fallback)";
     }
 
-    // 2. Initialize Root
-    const rootBranch: STTTBranch = {
-        id: 'root',
-        steps: [],
-        assignments: {},
-        status: 'Open',
-        children: []
-    };
-
-    // 3. Solve
-    const resultBranch = solveBranch(rootBranch, rootQueue, variables);
-
-    // 4. Result
-    const isProven = checkBranchClosure(resultBranch);
-    let counterExample: AssignmentMap | undefined = undefined;
-    if (!isProven) {
-        counterExample = findCounterExample(resultBranch, variables);
-    }
+    // 2. Solve
+    const part = solve(proofTitle, rootQueue, variables);
+    const isProven = part.result === 'Proven';
 
     const textSummary = isProven 
             ? `All branches led to contradictions. The statement IS a ${target}.` 
@@ -92,112 +76,158 @@ export const generateSTTTReport = (ast: ASTNode, variables: string[], target: ST
 
     return {
         target,
-        rootBranch: resultBranch,
-        result: isProven ? 'Proven' : 'Disproven',
-        counterExample,
+        rootBranch: part.rootBranch,
+        result: part.result,
+        counterExample: part.counterExample,
+        freeVariables: part.freeVariables,
+        counterExampleVerified: part.counterExampleVerified,
         textSummary,
         proofTitle,
-        initialAssumptions
+        initialAssumptions: part.initialAssumptions,
+        stats: part.stats
     };
 };
 
-const generateContingencyReport = (ast: ASTNode, variables: string[]): STTTReport => {
-    // Strategy:
-    // 1. Try to prove Tautology (Assume False). 
-    //    If PROVEN (contradiction found), then it is ALWAYS TRUE. So NOT Contingency.
-    // 2. Try to prove Contradiction (Assume True).
-    //    If PROVEN (contradiction found), then it is ALWAYS FALSE. So NOT Contingency.
-    // 3. If BOTH are DISPROVEN (counter-examples found for both), then it IS Contingency.
-
-    const tReport = generateSTTTReport(ast, variables, 'Tautology');
-    if (tReport.result === 'Proven') {
-        return {
-            target: 'Contingency',
-            rootBranch: tReport.rootBranch,
-            result: 'Disproven',
-            textSummary: "The statement is a Tautology (Always True), therefore it is NOT a Contingency.",
-            proofTitle: "Check Contingency",
-            initialAssumptions: [{ expr: ast.expression, val: false }]
-        };
+/**
+ * Argument validity: the premises entail the conclusion when no row makes every premise T and the conclusion F.
+ * Each formula may come from a separate parse, so node ids are scoped per formula before solving.
+ */
+export const buildArgumentReport = (premises: ASTNode[], conclusion: ASTNode, variables: string[], solve: PartSolver): STTTReport => {
+    const assumptions: ProcessingNode[] = [
+        ...premises.map((p, i) => ({ ast: scopeIds(p, `p${i}`), targetValue: true })),
+        { ast: scopeIds(conclusion, 'c'), targetValue: false }
+    ];
+    const part = solve("Prove Argument Validity", assumptions, variables);
+    const valid = part.result === 'Proven';
+
+    // Premise indices line up with assumption indices; the conclusion is the last assumption
+    const used = Array.from(new Set(collectClosures(part.rootBranch).flatMap(c => c.sources)))
+        .filter(i => i < premises.length)
+        .sort((a, b) => a - b);
+    const unused = premises.map((_, i) => i).filter(i => !used.includes(i));
+
+    let textSummary = premises.length === 0
+        ? "Found a row where the conclusion is False. With no premises, the argument is NOT valid."
+        : "Found a row where every premise is True and the conclusion is False. The argument is NOT valid.";
+    if (valid) {
+        textSummary = "Assuming every premise True and the conclusion False closed every branch. The argument IS valid.";
+        if (unused.length > 0 && premises.length > 0) {
+            textSummary += ` ${unused.map(i => `P${i + 1}`).join(', ')} ${unused.length === 1 ? 'was' : 'were'} never needed to close a branch.`;
+        }
     }
 
-    const cReport = generateSTTTReport(ast, variables, 'Contradiction');
-    if (cReport.result === 'Proven') {
-        return {
-            target: 'Contingency',
-            rootBranch: cReport.rootBranch,
-            result: 'Disproven',
-            textSummary: "The statement is a Contradiction (Always False), therefore it is NOT a Contingency.",
-            proofTitle: "Check Contingency",
-            initialAssumptions: [{ expr: ast.expression, val: true }]
-        };
+    return {
+        target: 'Argument',
+        rootBranch: part.rootBranch,
+        result: part.result,
+        counterExample: part.counterExample,
+        freeVariables: part.freeVariables,
+        counterExampleVerified: part.counterExampleVerified,
+        textSummary,
+        proofTitle: part.title,
+        initialAssumptions: part.initialAssumptions,
+        stats: part.stats,
+        argument: {
+            premises: premises.map(p => p.expression),
+            conclusion: conclusion.expression,
+            usedPremises: used
+        }
+    };
+};
+
+const scopeIds = (node: ASTNode, scope: string): ASTNode => ({
+    ...node,
+    id: `${scope}:${node.id}`,
+    ...(node.operand ? { operand: scopeIds(node.operand, scope) } : {}),
+    ...(node.left ? { left: scopeIds(node.left, scope) } : {}),
+    ...(node.right ? { right: scopeIds(node.right, scope) } : {})
+});
+
+const collectClosures = (branch: STTTBranch): STTTContradiction[] => [
+    ...(branch.contradiction ? [branch.contradiction] : []),
+    ...(branch.children ?? []).flatMap(collectClosures)
+];
+
+const buildContingencyReport = (ast: ASTNode, variables: string[], solve: PartSolver): STTTReport => {
+    // A contingency needs a witness both ways: one row where it is False and one where it is True.
+    // Each half closes only if that value is impossible.
+    const canBeFalse = solve("Can it be False?", [{ ast, targetValue: false }], variables);
+    const canBeTrue = solve("Can it be True?", [{ ast, targetValue: true }], variables);
+    const parts = [canBeFalse, canBeTrue];
+
+    let textSummary = "Found cases for both True and False values. The statement IS a Contingency.";
+    if (canBeFalse.result === 'Proven') {
+        textSummary = "Assuming False closed every branch: the statement is a Tautology (Always True), therefore it is NOT a Contingency.";
+    } else if (canBeTrue.result === 'Proven') {
+        textSummary = "Assuming True closed every branch: the statement is a Contradiction (Always False), therefore it is NOT a Contingency.";
     }
 
-    // Both disproven. We found a case where it's False (tReport counter-example) and True (cReport counter-example).
-    // Visualization: We can show one of the trees that successfully found a value. 
-    // Or we can construct a dummy root showing both results?
-    // For simplicity, let's show the Tautology attempt (showing it can be False) and mention the other.
-    
     return {
         target: 'Contingency',
-        rootBranch: tReport.rootBranch,
-        result: 'Proven',
-        textSummary: "Found cases for both True and False values. The statement IS a Contingency.",
+        rootBranch: canBeFalse.rootBranch,
+        result: parts.every(p => p.result === 'Disproven') ? 'Proven' : 'Disproven',
+        textSummary,
         proofTitle: "Check Contingency",
-        initialAssumptions: [{ expr: ast.expression, val: false }] // We show the check for False first
+        initialAssumptions: [],
+        parts,
+        stats: combineStats(parts.map(p => p.stats))
     };
 };
 
-const generateEquivalenceReport = (ast: ASTNode, variables: string[]): STTTReport => {
+const buildEquivalenceReport = (ast: ASTNode, variables: string[], solve: PartSolver): STTTReport => {
     if (!ast.left || !ast.right) throw new Error("Invalid Equivalence");
+    const L = ast.left;
+    const R = ast.right;
+
+    // L ⇔ R holds exactly when both directions are tautological implications
+    const forward = solve(`${L.expression} ⇒ ${R.expression}`, [{ ast: L, targetValue: true }, { ast: R, targetValue: false }], variables);
+    const backward = solve(`${R.expression} ⇒ ${L.expression}`, [{ ast: R, targetValue: true }, { ast: L, targetValue: false }], variables);
+    const parts = [forward, backward];
+    const failed = parts.find(p => p.result === 'Disproven');
     
-    // Create a dummy root that splits immediately
+    return {
+        target: 'Equivalence',
+        rootBranch: forward.rootBranch,
+        result: failed ? 'Disproven' : 'Proven',
+        counterExample: failed?.counterExample,
+        freeVariables: failed?.freeVariables,
+        counterExampleVerified: failed?.counterExampleVerified,
+        textSummary: failed 
+            ? `The direction ${failed.title} fails, so LHS ≠ RHS on some row. They are NOT equivalent.`
+            : "Both directions led to contradictions in every branch. Therefore, LHS ⇔ RHS.",
+        proofTitle: "Prove Tautological Equivalence",
+        initialAssumptions: [],
+        parts,
+        stats: combineStats(parts.map(p => p.stats))
+    };
+};
+
+// One STTT run: assume every node in `assumptions`, propagate, and look for an open branch
+const solvePart = (title: string, assumptions: ProcessingNode[], variables: string[], strategy: STTTStrategy): STTTProofPart => {
     const rootBranch: STTTBranch = {
         id: 'root',
-        steps: [{
-            id: 'init-split',
-            description: "To disprove Equivalence, we test both cases where sides differ.",
-            targetNodeExpression: ast.expression,
-            value: false,
-            reason: 'Assumption'
-        }],
+        steps: [],
         assignments: {},
+        nodeValues: {},
+        forcedAt: {},
+        forcedBy: {},
+        stepCount: 0,
         status: 'Open',
         children: []
     };
-
-    // Case 1: L=T, R=F
-    const branch1 = solveBranch(
-        createChildBranch(rootBranch, `${ast.left.expression}=T, ${ast.right.expression}=F`),
-        [{ ast: ast.left, targetValue: true }, { ast: ast.right, targetValue: false }],
-        variables
-    );
-
-    // Case 2: L=F, R=T
-    const branch2 = solveBranch(
-        createChildBranch(rootBranch, `${ast.left.expression}=F, ${ast.right.expression}=T`),
-        [{ ast: ast.left, targetValue: false }, { ast: ast.right, targetValue: true }],
-        variables
-    );
-
-    rootBranch.children = [branch1, branch2];
-    
-    const isProven = checkBranchClosure(rootBranch);
-    
+    const resultBranch = solveBranch(rootBranch, assumptions.map((n, i) => ({ ...n, source: i })), variables, strategy);
+    const isProven = checkBranchClosure(resultBranch);
     return {
-        target: 'Equivalence',
-        rootBranch,
+        title,
+        initialAssumptions: assumptions.map(n => ({ expr: n.ast.expression, val: n.targetValue })),
+        rootBranch: resultBranch,
         result: isProven ? 'Proven' : 'Disproven',
-        textSummary: isProven 
-            ? "Both scenarios of differing values led to contradictions. Therefore, LHS ⇔ RHS." 
-            : "Found a case where LHS ≠ RHS. Therefore, they are NOT equivalent.",
-        proofTitle: "Prove Tautological Equivalence",
-        initialAssumptions: [{ expr: ast.expression, val: false }]
+        stats: branchStats(resultBranch),
+        ...(isProven ? {} : buildCounterExample(resultBranch, assumptions, variables))
     };
 };
 
-
-const checkBranchClosure = (branch: STTTBranch): boolean => {
+export const checkBranchClosure = (branch: STTTBranch): boolean => {
     if (branch.status === 'Closed') return true;
     if (branch.status === 'Complete') return false;
     if (branch.children && branch.children.length > 0) {
@@ -206,106 +236,137 @@ const checkBranchClosure = (branch: STTTBranch): boolean => {
     return false;
 };
 
-const findCounterExample = (branch: STTTBranch, allVars: string[]): AssignmentMap | undefined => {
-    if (branch.status === 'Complete') {
-        return branch.assignments;
-    }
-    if (branch.children) {
-        for (const child of branch.children) {
-            const found = findCounterExample(child, allVars);
-            if (found) return found;
-        }
+// Leaves, deepest split and numbered forcing steps (the closing clash of a branch is not a forcing step)
+export const branchStats = (branch: STTTBranch, depth = 0): STTTStats => {
+    const own = branch.steps.filter(s => s.number !== undefined && s.number !== branch.contradiction?.step2).length;
+    if (!branch.children?.length) return { branches: 1, maxDepth: depth, forcedSteps: own };
+    return combineStats(branch.children.map(c => branchStats(c, depth + 1)), own);
+};
+
+const combineStats = (stats: STTTStats[], forcedSteps = 0): STTTStats => ({
+    branches: stats.reduce((sum, s) => sum + s.branches, 0),
+    maxDepth: Math.max(...stats.map(s => s.maxDepth)),
+    forcedSteps: stats.reduce((sum, s) => sum + s.forcedSteps, forcedSteps)
+});
+
+const findOpenLeaf = (branch: STTTBranch): STTTBranch | undefined => {
+    if (branch.status === 'Complete' && !branch.children?.length) return branch;
+    for (const child of branch.children ?? []) {
+        const found = findOpenLeaf(child);
+        if (found) return found;
     }
     return undefined;
 };
 
+// An open branch satisfied every forced value, so atoms it never touched may take either value.
+// They are filled with F and the assumptions are re-checked with the ordinary evaluator.
+export const buildCounterExample = (branch: STTTBranch, assumptions: ProcessingNode[], allVars: string[])
+    : Pick<STTTProofPart, 'counterExample' | 'freeVariables' | 'counterExampleVerified'> => {
+    const leaf = findOpenLeaf(branch);
+    if (!leaf) return {};
+    const counterExample: AssignmentMap = Object.fromEntries(allVars.map(v => [v, leaf.assignments[v] ?? false]));
+    return {
+        counterExample,
+        freeVariables: allVars.filter(v => leaf.assignments[v] === undefined),
+        counterExampleVerified: assumptions.every(n => evaluateAST(n.ast, counterExample) === n.targetValue)
+    };
+};
+
 // --- The Core Recursive Solver ---
 
+// A branching node whose split has been put off until nothing deterministic is left
+interface BranchPoint {
+    ast: ASTNode;
+    targetValue: boolean;
+    cases: ProcessingNode[][];
+}
+
 const solveBranch = (
     branch: STTTBranch, 
     todoQueue: ProcessingNode[], 
-    allVars: string[]
+    allVars: string[],
+    strategy: STTTStrategy,
+    deferred: BranchPoint[] = []
 ): STTTBranch => {
     
     let currentQueue = [...todoQueue];
+    let pending = [...deferred];
+    // The root's starting assumptions are shown in the report header rather than as steps
+    const assumed = new Set(branch.id === 'root' ? todoQueue.map(n => n.ast.id) : []);
     
-    while (currentQueue.length > 0) {
-        const { ast, targetValue } = currentQueue.shift()!;
-        
+    while (currentQueue.length > 0 || pending.length > 0) {
+        if (currentQueue.length === 0) {
+            const choice = pickBranchPoint(branch, pending, strategy);
+            pending = choice.rest;
+            if (!choice.point) break;
+            // With one case left (or none, which then clashes) there is nothing to split
+            if (choice.alive.length <= 1) {
+                currentQueue.push(...(choice.alive[0] ?? choice.point.cases[0]));
+                continue;
+            }
+            return splitBranch(branch, choice.point, [], pending, allVars, strategy);
+        }
+
+        const { ast, targetValue, source } = currentQueue.shift()!;
+        const sources = source === undefined ? [] : [source];
+        const atom = ast.type === 'VAR' ? ast.value! : null;
+
         // 1. Check for Contradiction with existing assignments
-        if (branch.assignments[ast.id] !== undefined) {
-            if (branch.assignments[ast.id] !== targetValue) {
-                // Contradiction found!
-                branch.status = 'Closed';
-                branch.contradiction = {
-                    variable: ast.expression,
-                    val1: branch.assignments[ast.id],
-                    val2: targetValue
-                };
-                branch.steps.push({
-                    id: crypto.randomUUID(),
-                    description: `Contradiction! ${ast.expression} was ${branch.assignments[ast.id] ? 'True' : 'False'}, but now forced to ${targetValue ? 'True' : 'False'}.`,
-                    targetNodeExpression: ast.expression,
-                    value: targetValue,
-                    reason: 'Forced'
-                });
-                return branch;
+        if (atom === '1' || atom === '0') {
+            if ((atom === '1') !== targetValue) {
+                return closeBranch(branch, atom, atom === '1', targetValue, 0, sources,
+                    `Contradiction! The constant ${atom} cannot be ${targetValue ? 'True' : 'False'}.`);
             }
-            continue; // Already assigned same value, skip
+            continue;
+        }
+
+        const existing = atom ? branch.assignments[atom] : branch.nodeValues[ast.id];
+        if (existing !== undefined) {
+            if (existing !== targetValue) {
+                const firstStep = branch.forcedAt[atom ?? ast.id];
+                const firstSource = branch.forcedBy[atom ?? ast.id];
+                const where = (n: number) => n === 0 ? 'by assumption' : `at step ${n}`;
+                return closeBranch(branch, ast.expression, existing, targetValue, firstStep,
+                    firstSource === undefined ? sources : [firstSource, ...sources],
+                    `Contradiction! ${ast.expression} forced ${existing ? 'T' : 'F'} ${where(firstStep)} and ${targetValue ? 'T' : 'F'} at step ${branch.stepCount + 1}.`);
+            }
+            // Another occurrence of an atom that already has this value
+            branch.nodeValues[ast.id] = targetValue;
+            continue;
         }
 
         // 2. Assign Value
-        branch.assignments[ast.id] = targetValue;
+        const logged = !assumed.has(ast.id);
+        const number = logged ? ++branch.stepCount : 0;
+        branch.nodeValues[ast.id] = targetValue;
+        branch.forcedAt[atom ?? ast.id] = number;
+        if (source !== undefined) branch.forcedBy[atom ?? ast.id] = source;
+        if (atom) branch.assignments[atom] = targetValue;
         
         // Log Step
-        if (branch.steps.length > 0 || branch.id !== 'root') {
+        if (logged) {
              branch.steps.push({
                 id: crypto.randomUUID(),
                 description: `Force ${ast.expression} = ${targetValue ? 'True' : 'False'}`,
                 targetNodeExpression: ast.expression,
                 value: targetValue,
-                reason: 'Forced'
+                reason: 'Forced',
+                number
             });
         }
 
         // 3. Propagate Logic (Determine Children Values)
+        // Everything derived from this node traces back to the same assumption
         const nextMoves = getImplications(ast, targetValue);
+        const inherit = (nodes: ProcessingNode[]) => nodes.map(n => ({ ...n, source }));
 
         if (nextMoves.type === 'Deterministic') {
             // Add children to queue
-            currentQueue.push(...nextMoves.nodes);
+            currentQueue.push(...inherit(nextMoves.nodes));
         } else if (nextMoves.type === 'Branching') {
-            // SPLIT!
-            branch.steps.push({
-                id: crypto.randomUUID(),
-                description: `Branching required for ${ast.expression} = ${targetValue ? 'True' : 'False'}`,
-                targetNodeExpression: ast.expression,
-                value: targetValue,
-                reason: 'Branch'
-            });
-
-            // Create Child Branches
-            const branchA = solveBranch(
-                createChildBranch(branch, 'Case 1'),
-                [...currentQueue, ...nextMoves.branches[0]], 
-                allVars
-            );
-
-            const branchB = solveBranch(
-                createChildBranch(branch, 'Case 2'),
-                [...currentQueue, ...nextMoves.branches[1]],
-                allVars
-            );
-
-            branch.children = [branchA, branchB];
-            
-            // Determine Branch Status based on children
-            if (branchA.status === 'Closed' && branchB.status === 'Closed') {
-                branch.status = 'Closed'; // All paths contradict
-            } else {
-                branch.status = 'Complete'; // At least one path works
-            }
-            return branch;
+            const point: BranchPoint = { ast, targetValue, cases: nextMoves.branches.map(inherit) };
+            if (strategy === 'FIFO') return splitBranch(branch, point, currentQueue, pending, allVars, strategy);
+            pending.push(point);
         }
     }
 
@@ -314,6 +375,80 @@ const solveBranch = (
     return branch;
 };
 
+const splitBranch = (
+    branch: STTTBranch, point: BranchPoint, queue: ProcessingNode[], pending: BranchPoint[], allVars: string[], strategy: STTTStrategy
+): STTTBranch => {
+    branch.steps.push({
+        id: crypto.randomUUID(),
+        description: `Branching required for ${point.ast.expression} = ${point.targetValue ? 'True' : 'False'}`,
+        targetNodeExpression: point.ast.expression,
+        value: point.targetValue,
+        reason: 'Branch'
+    });
+
+    branch.children = point.cases.map((entries, i) => solveBranch(
+        createChildBranch(branch, `Case ${i + 1}`),
+        [...queue, ...entries],
+        allVars,
+        strategy,
+        pending
+    ));
+
+    // Closed only if all paths contradict
+    branch.status = branch.children.every(c => c.status === 'Closed') ? 'Closed' : 'Complete';
+    return branch;
+};
+
+const knownValue = (branch: STTTBranch, n: ProcessingNode): boolean | undefined => {
+    if (n.ast.type !== 'VAR') return branch.nodeValues[n.ast.id];
+    if (n.ast.value === '1' || n.ast.value === '0') return n.ast.value === '1';
+    return branch.assignments[n.ast.value!];
+};
+
+const countUnknown = (branch: STTTBranch, node: ASTNode): number =>
+    (knownValue(branch, { ast: node, targetValue: true }) === undefined ? 1 : 0)
+    + [node.operand, node.left, node.right].reduce((sum, c) => sum + (c ? countUnknown(branch, c) : 0), 0);
+
+/**
+ * Chooses the next deferred split. Points with a case that already holds are dropped, and cases
+ * that clash with the branch are discarded first, so a point with one live case is really forced.
+ * Deterministic-first splits on the earliest remaining point; most-constrained on the one with the
+ * fewest live cases, then the fewest undecided subformulas below it.
+ */
+const pickBranchPoint = (branch: STTTBranch, pending: BranchPoint[], strategy: STTTStrategy)
+    : { point?: BranchPoint; alive: ProcessingNode[][]; rest: BranchPoint[] } => {
+    const candidates = pending
+        .filter(p => !p.cases.some(c => c.every(n => knownValue(branch, n) === n.targetValue)))
+        .map(point => ({
+            point,
+            alive: point.cases.filter(c => c.every(n => knownValue(branch, n) === undefined || knownValue(branch, n) === n.targetValue))
+        }));
+    if (candidates.length === 0) return { alive: [], rest: [] };
+
+    const forced = candidates.find(c => c.alive.length <= 1);
+    const score = (c: typeof candidates[number]) => c.alive.length * 1000 + countUnknown(branch, c.point.ast);
+    const chosen = forced
+        ?? (strategy === 'MostConstrained' ? candidates.reduce((best, c) => score(c) < score(best) ? c : best) : candidates[0]);
+    return { ...chosen, rest: candidates.filter(c => c !== chosen).map(c => c.point) };
+};
+
+const closeBranch = (
+    branch: STTTBranch, subject: string, val1: boolean, val2: boolean, step1: number, sources: number[], description: string
+): STTTBranch => {
+    const step2 = ++branch.stepCount;
+    branch.status = 'Closed';
+    branch.contradiction = { variable: subject, val1, val2, step1, step2, sources: Array.from(new Set(sources)).sort((a, b) => a - b) };
+    branch.steps.push({
+        id: crypto.randomUUID(),
+        description,
+        targetNodeExpression: subject,
+        value: val2,
+        reason: 'Forced',
+        number: step2
+    });
+    return branch;
+};
+
 const createChildBranch = (parent: STTTBranch, label: string): STTTBranch => ({
     id: crypto.randomUUID(),
     parentId: parent.id,
@@ -325,15 +460,20 @@ const createChildBranch = (parent: STTTBranch, label: string): STTTBranch => ({
         reason: 'Branch' 
     }],
     assignments: { ...parent.assignments }, // Copy assignments
+    nodeValues: { ...parent.nodeValues },
+    forcedAt: { ...parent.forcedAt },
+    forcedBy: { ...parent.forcedBy },
+    stepCount: parent.stepCount,
     status: 'Open',
     children: []
 });
 
-type ImplicationResult = 
+export type ImplicationResult = 
   | { type: 'Deterministic', nodes: ProcessingNode[] }
   | { type: 'Branching', branches: [ProcessingNode[], ProcessingNode[]] };
 
-const getImplications = (node: ASTNode, val: boolean): ImplicationResult => {
+// What a node's value says about its operands; shared with the guided (manual) proof checker
+export const getImplications = (node: ASTNode, val: boolean): ImplicationResult => {
     const T = true;
     const F = false;
 
@@ -393,6 +533,46 @@ const getImplications = (node: ASTNode, val: boolean): ImplicationResult => {
                  ] };
              }
              
+        case 'CONVERSE':
+            if (val === F) {
+                // F = F ← T (Deterministic, mirror of →)
+                return { type: 'Deterministic', nodes: [{ ast: L, targetValue: F }, { ast: R, targetValue: T }] };
+            } else {
+                // T = T ← ? OR ? ← F (Branching)
+                return { type: 'Branching', branches: [ [{ ast: L, targetValue: T }], [{ ast: R, targetValue: F }] ] };
+            }
+
+        case 'NAND':
+            if (val === F) {
+                // F = T ↑ T (Deterministic)
+                return { type: 'Deterministic', nodes: [{ ast: L, targetValue: T }, { ast: R, targetValue: T }] };
+            } else {
+                // T = F ↑ ? OR ? ↑ F (Branching)
+                return { type: 'Branching', branches: [ [{ ast: L, targetValue: F }], [{ ast: R, targetValue: F }] ] };
+            }
+
+        case 'NOR':
+            if (val === T) {
+                // T = F ↓ F (Deterministic)
+                return { type: 'Deterministic', nodes: [{ ast: L, targetValue: F }, { ast: R, targetValue: F }] };
+            } else {
+                // F = T ↓ ? OR ? ↓ T (Branching)
+                return { type: 'Branching', branches: [ [{ ast: L, targetValue: T }], [{ ast: R, targetValue: T }] ] };
+            }
+
+        case 'XNOR': // Same truth table as ↔
+             if (val === T) {
+                 return { type: 'Branching', branches: [ 
+                     [{ ast: L, targetValue: T }, { ast: R, targetValue: T }],
+                     [{ ast: L, targetValue: F }, { ast: R, targetValue: F }]
+                 ] };
+             } else {
+                 return { type: 'Branching', branches: [ 
+                     [{ ast: L, targetValue: T }, { ast: R, targetValue: F }],
+                     [{ ast: L, targetValue: F }, { ast: R, targetValue: T }]
+                 ] };
+             }
+
         case 'XOR':
              if (val === F) { 
                  return { type: 'Branching', branches: [ 
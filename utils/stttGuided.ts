@@ -0,0 +1,302 @@
+import { ASTNode, AssignmentMap, GuidedBranch, GuidedFeedback, GuidedGrade, GuidedHint, GuidedMove, GuidedProof, STTTBranch, STTTReport } from '../types';
+import { evaluateAST } from './logic';
+import { getImplications, ImplicationResult } from './sttt';
+
+/**
+ * Guided STTT
+ *
+ * The student writes values under the formula one subformula at a time. A move is accepted only
+ * when the opposite value is ruled out by one step of `getImplications`:
+ * - from above: the parent's value leaves this value in every case that is still open, or
+ * - from below: the node's own parts already rule out the other value, or
+ * - the same atom already has this value elsewhere.
+ * Forcing a value onto a node that already holds the other one closes the branch.
+ * Splitting follows the two cases `getImplications` gives for a branching node.
+ */
+
+interface NodeIndex {
+    nodes: Record<string, ASTNode>;
+    parent: Record<string, ASTNode | undefined>;
+    order: ASTNode[]; // pre-order: the main connective first, then left to right
+}
+
+const indexAST = (root: ASTNode): NodeIndex => {
+    const index: NodeIndex = { nodes: {}, parent: {}, order: [] };
+    const visit = (node: ASTNode, parent?: ASTNode) => {
+        index.nodes[node.id] = node;
+        index.parent[node.id] = parent;
+        index.order.push(node);
+        [node.operand, node.left, node.right].forEach(child => child && visit(child, node));
+    };
+    visit(root);
+    return index;
+};
+
+const tf = (value: boolean) => value ? 'T' : 'F';
+const isConstant = (node: ASTNode) => node.type === 'VAR' && (node.value === '1' || node.value === '0');
+
+// Constants have their own value and every occurrence of an atom shares one
+const knownValue = (index: NodeIndex, branch: GuidedBranch, node: ASTNode): boolean | undefined => {
+    if (isConstant(node)) return node.value === '1';
+    if (branch.values[node.id] !== undefined) return branch.values[node.id];
+    if (node.type === 'VAR') {
+        const twin = index.order.find(n => n.type === 'VAR' && n.value === node.value && branch.values[n.id] !== undefined);
+        return twin && branch.values[twin.id];
+    }
+    return undefined;
+};
+
+export const guidedValues = (root: ASTNode, branch: GuidedBranch): AssignmentMap => {
+    const index = indexAST(root);
+    const values: AssignmentMap = {};
+    index.order.forEach(node => {
+        const value = knownValue(index, branch, node);
+        if (value !== undefined) values[node.id] = value;
+    });
+    return values;
+};
+
+const cases = (result: ImplicationResult) => result.type === 'Deterministic' ? [result.nodes] : result.branches;
+
+// Why `node = value` follows from what the branch already knows, or null if it does not
+const justify = (index: NodeIndex, branch: GuidedBranch, node: ASTNode, value: boolean): string | null => {
+    const clashes = (n: { ast: ASTNode; targetValue: boolean }) => {
+        const known = knownValue(index, branch, n.ast);
+        return known !== undefined && known !== n.targetValue;
+    };
+
+    const parent = index.parent[node.id];
+    const parentValue = parent && knownValue(index, branch, parent);
+    if (parent && parentValue !== undefined) {
+        const implied = getImplications(parent, parentValue);
+        // The node's own current value is what is being tested, so it does not rule a case out
+        const open = cases(implied).filter(c => !c.some(n => n.ast.id !== node.id && clashes(n)));
+        if (open.length > 0 && open.every(c => c.some(n => n.ast.id === node.id && n.targetValue === value))) {
+            return implied.type === 'Deterministic'
+                ? `${parent.expression} = ${tf(parentValue)} forces it`
+                : `the only case of ${parent.expression} = ${tf(parentValue)} still open`;
+        }
+    }
+
+    if (node.type !== 'VAR' && cases(getImplications(node, !value)).every(c => c.some(clashes))) {
+        return `its parts rule out ${tf(!value)}`;
+    }
+
+    if (node.type === 'VAR') {
+        const twin = index.order.find(n => n.id !== node.id && n.type === 'VAR' && n.value === node.value && branch.values[n.id] === value);
+        if (twin) return `${node.value} is already ${tf(value)}`;
+    }
+    return null;
+};
+
+const ownMoves = (proof: GuidedProof, branch: GuidedBranch) =>
+    branch.moves.length - (branch.parentId ? proof.branches[branch.parentId].moves.length : 0);
+
+const leaves = (proof: GuidedProof): GuidedBranch[] => {
+    const collect = (id: string): GuidedBranch[] => {
+        const branch = proof.branches[id];
+        return branch.children ? branch.children.flatMap(collect) : [branch];
+    };
+    return collect(proof.rootBranchId);
+};
+
+const nextActive = (proof: GuidedProof): string =>
+    leaves(proof).find(b => b.status === 'Open')?.id ?? proof.activeBranchId;
+
+const updateBranch = (proof: GuidedProof, branch: GuidedBranch): GuidedProof => {
+    const next = { ...proof, branches: { ...proof.branches, [branch.id]: branch } };
+    return branch.status === 'Open' ? next : { ...next, activeBranchId: nextActive(next) };
+};
+
+const activeOpenBranch = (proof: GuidedProof): GuidedBranch | GuidedFeedback => {
+    const branch = proof.branches[proof.activeBranchId];
+    return branch.status === 'Open' ? branch : { ok: false, message: 'This branch is finished. Pick an open branch.' };
+};
+
+export const createGuidedProof = (root: ASTNode, target: GuidedProof['target']): GuidedProof => {
+    const rootValue = target === 'Contradiction';
+    const branch: GuidedBranch = {
+        id: crypto.randomUUID(),
+        label: '1',
+        values: { [root.id]: rootValue },
+        moves: [{
+            number: 0,
+            nodeId: root.id,
+            expression: root.expression,
+            value: rootValue,
+            reason: 'Assumption',
+            rule: `Assumed ${tf(rootValue)} to refute ${target}`
+        }],
+        status: 'Open'
+    };
+    return { target, rootValue, branches: { [branch.id]: branch }, rootBranchId: branch.id, activeBranchId: branch.id, mistakes: 0, hintsUsed: 0 };
+};
+
+export const applyGuidedMove = (proof: GuidedProof, root: ASTNode, nodeId: string, value: boolean): { proof: GuidedProof; feedback: GuidedFeedback } => {
+    const branch = activeOpenBranch(proof);
+    if (!('id' in branch)) return { proof, feedback: branch };
+
+    const index = indexAST(root);
+    const node = index.nodes[nodeId];
+    const known = knownValue(index, branch, node);
+    if (known === value) return { proof, feedback: { ok: false, message: `${node.expression} is already ${tf(value)}.` } };
+
+    const rule = justify(index, branch, node, value);
+    if (!rule) {
+        return {
+            proof: { ...proof, mistakes: proof.mistakes + 1 },
+            feedback: { ok: false, message: `Illegal inference: nothing forces ${node.expression} = ${tf(value)} yet.` }
+        };
+    }
+
+    const move: GuidedMove = { number: branch.moves.length, nodeId, expression: node.expression, value, reason: 'Forced', rule };
+    if (known !== undefined) {
+        const contradiction = `${node.expression} is ${tf(known)} but must be ${tf(value)}: ${rule}`;
+        return {
+            proof: updateBranch(proof, { ...branch, moves: [...branch.moves, move], status: 'Closed', contradiction }),
+            feedback: { ok: true, message: `Contradiction! ${contradiction}. Branch ${branch.label} closes.` }
+        };
+    }
+    return {
+        proof: updateBranch(proof, { ...branch, moves: [...branch.moves, move], values: { ...branch.values, [nodeId]: value } }),
+        feedback: { ok: true, message: `${node.expression} = ${tf(value)}: ${rule}.` }
+    };
+};
+
+export const splitGuidedBranch = (proof: GuidedProof, root: ASTNode, nodeId: string): { proof: GuidedProof; feedback: GuidedFeedback } => {
+    const branch = activeOpenBranch(proof);
+    if (!('id' in branch)) return { proof, feedback: branch };
+
+    const index = indexAST(root);
+    const node = index.nodes[nodeId];
+    const value = knownValue(index, branch, node);
+    if (value === undefined) return { proof, feedback: { ok: false, message: `Give ${node.expression} a value before splitting on it.` } };
+
+    const implied = getImplications(node, value);
+    if (implied.type === 'Deterministic') {
+        return { proof, feedback: { ok: false, message: `${node.expression} = ${tf(value)} holds only one way; force its parts instead.` } };
+    }
+
+    const children = implied.branches.map((entries, i): GuidedBranch => {
+        const child: GuidedBranch = {
+            id: crypto.randomUUID(),
+            label: `${branch.label}.${i + 1}`,
+            parentId: branch.id,
+            values: { ...branch.values },
+            moves: [...branch.moves],
+            status: 'Open'
+        };
+        for (const { ast, targetValue } of entries) {
+            const known = knownValue(index, child, ast);
+            child.moves.push({
+                number: child.moves.length, nodeId: ast.id, expression: ast.expression, value: targetValue,
+                reason: 'Case', rule: `case ${i + 1} of ${node.expression} = ${tf(value)}`
+            });
+            if (known !== undefined && known !== targetValue) {
+                child.status = 'Closed';
+                child.contradiction = `${ast.expression} is ${tf(known)}, but case ${i + 1} needs ${tf(targetValue)}`;
+                break;
+            }
+            child.values[ast.id] = targetValue;
+        }
+        return child;
+    });
+
+    const next: GuidedProof = {
+        ...proof,
+        branches: {
+            ...proof.branches,
+            [branch.id]: { ...branch, status: 'Split', children: children.map(c => c.id) },
+            ...Object.fromEntries(children.map(c => [c.id, c]))
+        }
+    };
+    return {
+        proof: { ...next, activeBranchId: nextActive(next) },
+        feedback: { ok: true, message: `Split ${node.expression} = ${tf(value)} into branches ${children.map(c => c.label).join(' and ')}.` }
+    };
+};
+
+// An open branch is a counter-example once its atoms make the formula take the assumed value
+export const claimGuidedCounterExample = (proof: GuidedProof, root: ASTNode, variables: string[]): { proof: GuidedProof; feedback: GuidedFeedback } => {
+    const branch = activeOpenBranch(proof);
+    if (!('id' in branch)) return { proof, feedback: branch };
+
+    const index = indexAST(root);
+    const atomValue = (atom: string) => {
+        const node = index.order.find(n => n.type === 'VAR' && n.value === atom);
+        return node ? knownValue(index, branch, node) : undefined;
+    };
+    const counterExample: AssignmentMap = Object.fromEntries(variables.map(v => [v, atomValue(v) ?? false]));
+    const value = evaluateAST(root, counterExample);
+    if (value !== proof.rootValue) {
+        return {
+            proof: { ...proof, mistakes: proof.mistakes + 1 },
+            feedback: { ok: false, message: `Not a counter-example: under these values the formula is ${tf(value)}.` }
+        };
+    }
+    return {
+        proof: updateBranch(proof, { ...branch, status: 'Satisfied', counterExample }),
+        feedback: { ok: true, message: `Branch ${branch.label} is consistent: the formula is ${tf(value)} on this row.` }
+    };
+};
+
+export const guidedHint = (proof: GuidedProof, root: ASTNode): { proof: GuidedProof; hint?: GuidedHint } => {
+    const branch = activeOpenBranch(proof);
+    if (!('id' in branch)) return { proof };
+
+    const index = indexAST(root);
+    const forced = index.order.flatMap(node => [true, false]
+        .filter(value => knownValue(index, branch, node) !== value)
+        .map(value => ({ node, value, rule: justify(index, branch, node, value) }))
+        .filter(m => m.rule !== null));
+    // A move that closes the branch is the most useful one to point out
+    const move = forced.find(m => knownValue(index, branch, m.node) !== undefined) ?? forced[0];
+
+    let hint: GuidedHint;
+    if (move) {
+        hint = { kind: 'force', nodeId: move.node.id, value: move.value, message: `Force ${move.node.expression} = ${tf(move.value)}: ${move.rule}.` };
+    } else {
+        const splittable = index.order.find(node => {
+            const value = knownValue(index, branch, node);
+            if (value === undefined || node.type === 'VAR') return false;
+            const implied = getImplications(node, value);
+            // Pointless once some case already holds
+            return implied.type === 'Branching'
+                && !implied.branches.some(c => c.every(n => knownValue(index, branch, n.ast) === n.targetValue));
+        });
+        hint = splittable
+            ? { kind: 'split', nodeId: splittable.id, message: `Nothing is forced. Split on ${splittable.expression}.` }
+            : { kind: 'claim', message: 'Nothing is forced and nothing needs splitting: claim this branch as a counter-example.' };
+    }
+    return { proof: { ...proof, hintsUsed: proof.hintsUsed + 1 }, hint };
+};
+
+// Proven once every branch closed, disproven as soon as one branch is a counter-example
+export const guidedOutcome = (proof: GuidedProof): 'Proven' | 'Disproven' | undefined => {
+    const all = leaves(proof);
+    if (all.some(b => b.status === 'Satisfied')) return 'Disproven';
+    return all.every(b => b.status === 'Closed') ? 'Proven' : undefined;
+};
+
+export const guidedLeaves = leaves;
+
+const engineLeaves = (branch: STTTBranch): number =>
+    branch.children?.length ? branch.children.reduce((sum, c) => sum + engineLeaves(c), 0) : 1;
+
+const engineSteps = (branch: STTTBranch): number =>
+    branch.steps.filter(s => s.number !== undefined).length + (branch.children ?? []).reduce((sum, c) => sum + engineSteps(c), 0);
+
+export const gradeGuidedProof = (proof: GuidedProof, report: STTTReport): GuidedGrade | undefined => {
+    const verdict = guidedOutcome(proof);
+    if (!verdict) return undefined;
+    return {
+        verdict,
+        correct: verdict === report.result,
+        studentBranches: leaves(proof).length,
+        engineBranches: engineLeaves(report.rootBranch),
+        studentSteps: Object.values(proof.branches).reduce((sum, b) => sum + ownMoves(proof, b), 0) - 1,
+        engineSteps: engineSteps(report.rootBranch),
+        mistakes: proof.mistakes,
+        hintsUsed: proof.hintsUsed
+    };
+};
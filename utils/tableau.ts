@@ -0,0 +1,177 @@
+import { ASTNode, STTTBranch, STTTProofType, STTTReport } from '../types';
+import { OPERATOR_SYMBOLS } from './ast';
+import { fullyParenthesize } from './logic';
+import { buildArgumentReport, buildCounterExample, buildTargetReport, branchStats, checkBranchClosure, getImplications, PartSolver } from './sttt';
+
+/**
+ * Semantic Tableaux (Truth Trees)
+ *
+ * Builds a refutation tree from the same assumptions as the STTT engine, so every proof target
+ * works unchanged. Each line of a branch is a signed formula (T φ / F φ). The rules are the α/β
+ * rules read off `getImplications`: a deterministic result is an α rule (all components on the
+ * branch), a branching result a β rule (one child per case). α rules are applied before β rules.
+ * A branch closes when the same formula appears with both signs; an open, fully expanded branch
+ * gives a model from its literals.
+ *
+ * Unsigned trees write F φ as ¬φ. T ¬φ and F φ are then the same line, so T ¬φ is not expanded
+ * into a copy of itself.
+ */
+
+interface Line {
+    ast: ASTNode;
+    value: boolean;
+    source?: number;
+    number: number;
+}
+
+type Branch = { branch: STTTBranch; seen: Record<string, Line>; todo: Line[] };
+
+// Parsed subformulas keep the user's brackets, so "(P ∨ Q)" must not be wrapped twice
+const isWrapped = (text: string): boolean => {
+    if (!text.startsWith('(') || !text.endsWith(')')) return false;
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        if (text[i] === ')') depth--;
+        if (depth === 0 && i < text.length - 1) return false;
+    }
+    return true;
+};
+const negated = (ast: ASTNode) =>
+    ast.type === 'VAR' || ast.type === 'NOT' || isWrapped(ast.expression) ? `¬${ast.expression}` : `¬(${ast.expression})`;
+const display = (ast: ASTNode, value: boolean, signed: boolean) => signed || value ? ast.expression : negated(ast);
+
+const normalize = <T extends { ast: ASTNode; value: boolean }>(line: T, signed: boolean): T =>
+    !signed && line.value && line.ast.type === 'NOT' ? { ...line, ast: line.ast.operand!, value: false } : line;
+
+const ruleName = ({ ast, value }: Line, signed: boolean): string => {
+    const symbol = ast.type === 'VAR' ? '' : OPERATOR_SYMBOLS[ast.type];
+    if (signed) return `${value ? 'T' : 'F'}${symbol}`;
+    return value ? symbol : `¬${symbol}`;
+};
+
+// Adds a line to the branch; returns true when the branch closes
+const addLine = (
+    { branch, seen, todo }: Branch,
+    line: Omit<Line, 'number'>,
+    signed: boolean,
+    description: string
+): boolean => {
+    const norm = normalize(line, signed);
+    // Keyed by structure, not text: "(P)" and "P" are the same atom and must clash
+    const key = fullyParenthesize(norm.ast);
+    const existing = seen[key];
+    if (existing && existing.value === norm.value) return false; // already on the branch
+
+    const number = ++branch.stepCount;
+    const constant = norm.ast.type === 'VAR' && (norm.ast.value === '1' || norm.ast.value === '0') ? norm.ast.value === '1' : undefined;
+    const clash = existing ?? (constant !== undefined && constant !== norm.value ? { value: constant, number, source: norm.source } : undefined);
+
+    branch.steps.push({
+        id: crypto.randomUUID(),
+        description: clash ? `${description}; closes with line ${clash.number}` : description,
+        targetNodeExpression: display(line.ast, line.value, signed),
+        value: line.value,
+        reason: description === 'Given' ? 'Given' : 'Forced',
+        number
+    });
+
+    if (clash) {
+        branch.status = 'Closed';
+        branch.contradiction = {
+            variable: key,
+            val1: clash.value,
+            val2: norm.value,
+            step1: clash.number,
+            step2: number,
+            sources: Array.from(new Set([clash.source, norm.source].filter((s): s is number => s !== undefined))).sort((a, b) => a - b)
+        };
+        return true;
+    }
+
+    seen[key] = { ...norm, number };
+    if (norm.ast.type === 'VAR') branch.assignments[norm.ast.value!] = norm.value;
+    else todo.push({ ...norm, number });
+    return false;
+};
+
+const childBranch = (parent: Branch, label: string): Branch => ({
+    branch: {
+        id: crypto.randomUUID(),
+        parentId: parent.branch.id,
+        steps: [{ id: crypto.randomUUID(), description: `Subcase: ${label}`, targetNodeExpression: 'Branch', value: false, reason: 'Branch' }],
+        assignments: { ...parent.branch.assignments },
+        nodeValues: {},
+        forcedAt: {},
+        forcedBy: {},
+        stepCount: parent.branch.stepCount,
+        status: 'Open',
+        children: []
+    },
+    seen: { ...parent.seen },
+    todo: [...parent.todo]
+});
+
+const expand = (state: Branch, signed: boolean): STTTBranch => {
+    const { branch, todo } = state;
+    while (todo.length > 0) {
+        const alpha = todo.findIndex(l => getImplications(l.ast, l.value).type === 'Deterministic');
+        const [line] = todo.splice(Math.max(alpha, 0), 1);
+        const implied = getImplications(line.ast, line.value);
+        const rule = ruleName(line, signed);
+
+        if (implied.type === 'Deterministic') {
+            for (const n of implied.nodes) {
+                if (addLine(state, { ast: n.ast, value: n.targetValue, source: line.source }, signed, `${rule} (α) from line ${line.number}`)) return branch;
+            }
+            continue;
+        }
+
+        branch.steps.push({
+            id: crypto.randomUUID(),
+            description: `${rule} (β) on line ${line.number}`,
+            targetNodeExpression: display(line.ast, line.value, signed),
+            value: line.value,
+            reason: 'Branch'
+        });
+        branch.children = implied.branches.map((entries, i) => {
+            const child = childBranch(state, `Case ${i + 1}`);
+            const closed = entries.some(n =>
+                addLine(child, { ast: n.ast, value: n.targetValue, source: line.source }, signed, `${rule} (β) from line ${line.number}`));
+            return closed ? child.branch : expand(child, signed);
+        });
+        branch.status = branch.children.every(c => c.status === 'Closed') ? 'Closed' : 'Complete';
+        return branch;
+    }
+    branch.status = 'Complete';
+    return branch;
+};
+
+const tableauSolver = (signed: boolean): PartSolver => (title, assumptions, variables) => {
+    const state: Branch = {
+        branch: { id: 'root', steps: [], assignments: {}, nodeValues: {}, forcedAt: {}, forcedBy: {}, stepCount: 0, status: 'Open', children: [] },
+        seen: {},
+        todo: []
+    };
+    const closed = assumptions.some((a, i) => addLine(state, { ast: a.ast, value: a.targetValue, source: i }, signed, 'Given'));
+    const rootBranch = closed ? state.branch : expand(state, signed);
+    const isProven = checkBranchClosure(rootBranch);
+    return {
+        title,
+        initialAssumptions: assumptions.map(n => ({ expr: n.ast.expression, val: n.targetValue })),
+        rootBranch,
+        result: isProven ? 'Proven' : 'Disproven',
+        stats: branchStats(rootBranch),
+        ...(isProven ? {} : buildCounterExample(rootBranch, assumptions, variables))
+    };
+};
+
+export const generateTableauReport = (ast: ASTNode, variables: string[], target: STTTProofType = 'Tautology', signed = true): STTTReport => ({
+    ...buildTargetReport(ast, variables, target, tableauSolver(signed)),
+    tableau: { signed }
+});
+
+export const generateTableauArgumentReport = (premises: ASTNode[], conclusion: ASTNode, variables: string[], signed = true): STTTReport => ({
+    ...buildArgumentReport(premises, conclusion, variables, tableauSolver(signed)),
+    tableau: { signed }
+});
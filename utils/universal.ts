@@ -0,0 +1,78 @@
+import { ASTNode } from '../types';
+import { binaryNode, notNode } from './ast';
+
+/**
+ * Universal Gate Rewriting
+ *
+ * Re-expresses any formula using a single functionally complete connective:
+ * - NAND (↑): ¬A = A↑A, A∧B = (A↑B)↑(A↑B), A∨B = (A↑A)↑(B↑B)
+ * - NOR  (↓): the duals of the above
+ * XOR/XNOR use the four-gate constructions instead of expanding through ∧/∨.
+ * Subterms are shared, but the printed form repeats them: A↑A doubles its operand's text, so a
+ * few nested negations or XORs outgrow any display. Past MAX_UNIVERSAL_LENGTH the rewrite stops.
+ */
+
+export type UniversalGate = 'NAND' | 'NOR';
+
+export const MAX_UNIVERSAL_LENGTH = 20000;
+
+class TooLarge extends Error {}
+
+// Returns null when the printed form would pass MAX_UNIVERSAL_LENGTH
+export const rewriteUsingOnly = (node: ASTNode, gate: UniversalGate): ASTNode | null => {
+    const g = (l: ASTNode, r: ASTNode) => {
+        // Checked before building, since binaryNode concatenates both texts
+        if (l.expression.length + r.expression.length > MAX_UNIVERSAL_LENGTH) throw new TooLarge();
+        return binaryNode(gate, l, r);
+    };
+    const not = (a: ASTNode) => g(a, a);
+    const and = (a: ASTNode, b: ASTNode) => gate === 'NAND' ? not(g(a, b)) : g(not(a), not(b));
+    const or = (a: ASTNode, b: ASTNode) => gate === 'NAND' ? g(not(a), not(b)) : not(g(a, b));
+    // With t = A∘B, (A∘t)∘(B∘t) is XOR for NAND and XNOR for NOR
+    const fourGate = (a: ASTNode, b: ASTNode) => {
+        const t = g(a, b);
+        return g(g(a, t), g(b, t));
+    };
+    const xor = (a: ASTNode, b: ASTNode) => gate === 'NAND' ? fourGate(a, b) : not(fourGate(a, b));
+    const xnor = (a: ASTNode, b: ASTNode) => gate === 'NOR' ? fourGate(a, b) : not(fourGate(a, b));
+    const implies = (a: ASTNode, b: ASTNode) => gate === 'NAND' ? g(a, not(b)) : or(not(a), b);
+
+    const rewrite = (n: ASTNode): ASTNode => {
+        if (n.type === 'VAR') return n;
+        if (n.type === 'NOT') return not(rewrite(n.operand!));
+
+        const l = rewrite(n.left!);
+        const r = rewrite(n.right!);
+        switch (n.type) {
+            case 'AND': return and(l, r);
+            case 'OR': return or(l, r);
+            case 'NAND': return gate === 'NAND' ? g(l, r) : not(and(l, r));
+            case 'NOR': return gate === 'NOR' ? g(l, r) : not(or(l, r));
+            case 'IMPLIES': return implies(l, r);
+            case 'CONVERSE': return implies(r, l);
+            case 'IFF':
+            case 'XNOR': return xnor(l, r);
+            case 'XOR': return xor(l, r);
+        }
+        return n;
+    };
+
+    try {
+        return rewrite(node);
+    } catch (e) {
+        if (e instanceof TooLarge) return null;
+        throw e;
+    }
+};
+
+// Gate count of a rewritten formula, for display next to the result; a shared gate counts once
+export const countGates = (node: ASTNode): number => {
+    const seen = new Set<string>();
+    const visit = (n: ASTNode) => {
+        if (n.type === 'VAR' || seen.has(n.id)) return;
+        seen.add(n.id);
+        [n.left, n.right, n.operand].forEach(child => child && visit(child));
+    };
+    visit(node);
+    return seen.size;
+};